@@ -11,7 +11,26 @@ import {
   NodeConnectionType,
 } from 'n8n-workflow';
 
-import { LertyHttp, LertyAgent, LertyWebhookMessage } from '../../utils/LertyHttp';
+import {
+  LertyHttp,
+  LertyAgent,
+  LertyAgentInput,
+  LertyAgentReply,
+  LertyContentFormat,
+  LertyConversation,
+  LertyConversationFilters,
+  LertyConversationMessage,
+  LertyPage,
+  LertyPageOptions,
+  LertyQuickReply,
+  LertyWebhookMessage,
+  LertyUploadedFile,
+} from '../../utils/LertyHttp';
+import { FileUtils, LertyAttachment } from '../../utils/FileUtils';
+import { LertyApiError, LertyTimeoutError, toNodeApiError } from '../../utils/LertyErrors';
+import { LertyResponseWaiter } from '../../utils/LertyResponseWaiter';
+import { LertyTransport, LertyTransportPush, LertyTransportResult } from '../../utils/LertyTransport';
+import { LertyResponseStream } from '../../utils/LertyResponseStream';
 
 export class Lerty implements INodeType {
   description: INodeTypeDescription = {
@@ -19,8 +38,10 @@ export class Lerty implements INodeType {
     name: 'lerty',
     icon: 'file:lerty.svg',
     group: ['communication'],
-    version: 1,
-    subtitle: '={{$parameter["operation"]}}',
+    // Version 2 pushes over the WebSocket by default, version 1 keeps using HTTP unless Transport is set
+    version: [1, 2],
+    defaultVersion: 2,
+    subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
     description: 'Interact with Lerty AI agents',
     defaults: {
       name: 'Lerty',
@@ -40,12 +61,62 @@ export class Lerty implements INodeType {
       },
     },
     properties: [
+      {
+        displayName: 'Resource',
+        name: 'resource',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Agent',
+            value: 'agent',
+          },
+          {
+            name: 'Conversation',
+            value: 'conversation',
+          },
+          {
+            name: 'Message',
+            value: 'message',
+          },
+        ],
+        default: 'message',
+      },
       {
         displayName: 'Operation',
         name: 'operation',
         type: 'options',
         noDataExpression: true,
+        displayOptions: {
+          show: {
+            resource: ['agent'],
+          },
+        },
         options: [
+          {
+            name: 'Activate Agent',
+            value: 'activateAgent',
+            description: 'Set an agent\'s status to active',
+            action: 'Activate an agent',
+          },
+          {
+            name: 'Create Agent',
+            value: 'createAgent',
+            description: 'Create a new agent',
+            action: 'Create an agent',
+          },
+          {
+            name: 'Deactivate Agent',
+            value: 'deactivateAgent',
+            description: 'Set an agent\'s status to inactive',
+            action: 'Deactivate an agent',
+          },
+          {
+            name: 'Delete Agent',
+            value: 'deleteAgent',
+            description: 'Delete an agent',
+            action: 'Delete an agent',
+          },
           {
             name: 'Get Agent',
             value: 'getAgent',
@@ -58,12 +129,88 @@ export class Lerty implements INodeType {
             description: 'List all available agents',
             action: 'List all available agents',
           },
+          {
+            name: 'Update Agent',
+            value: 'updateAgent',
+            description: 'Update an agent\'s name, description or metadata',
+            action: 'Update an agent',
+          },
+        ],
+        default: 'listAgents',
+      },
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        displayOptions: {
+          show: {
+            resource: ['conversation'],
+          },
+        },
+        options: [
+          {
+            name: 'Get Conversation',
+            value: 'getConversation',
+            description: 'Get a conversation by ID',
+            action: 'Get a conversation',
+          },
+          {
+            name: 'Get Messages',
+            value: 'getMessages',
+            description: 'Get the message history of a conversation',
+            action: 'Get the messages of a conversation',
+          },
+          {
+            name: 'List Conversations',
+            value: 'listConversations',
+            description: 'List conversations, optionally filtered by agent, user, status or date',
+            action: 'List conversations',
+          },
+        ],
+        default: 'listConversations',
+      },
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        displayOptions: {
+          show: {
+            resource: ['message'],
+          },
+        },
+        options: [
+          {
+            name: 'Append to Streamed Reply',
+            value: 'appendToStream',
+            description: 'Push the next chunk of a streamed reply',
+            action: 'Append a chunk to a streamed reply',
+          },
+          {
+            name: 'Begin Streamed Reply',
+            value: 'beginStream',
+            description: 'Start a reply that is sent in chunks while it is generated',
+            action: 'Begin a streamed reply',
+          },
+          {
+            name: 'Finalize Streamed Reply',
+            value: 'finalizeStream',
+            description: 'Send the full reply that replaces the streamed chunks',
+            action: 'Finalize a streamed reply',
+          },
           {
             name: 'Reply to Conversation',
             value: 'replyToConversation',
             description: 'Reply to an existing conversation',
             action: 'Reply to an existing conversation',
           },
+          {
+            name: 'Send and Wait for Agent Response',
+            value: 'sendAndWait',
+            description: 'Send a message to a Lerty agent and wait for its reply',
+            action: 'Send a message and wait for the agent response',
+          },
           {
             name: 'Send Message',
             value: 'sendMessage',
@@ -87,7 +234,20 @@ export class Lerty implements INodeType {
         required: true,
         displayOptions: {
           show: {
-            operation: ['sendMessage', 'replyToConversation', 'getAgent', 'sendTypingIndicator'],
+            operation: [
+              'sendMessage',
+              'sendAndWait',
+              'replyToConversation',
+              'getAgent',
+              'updateAgent',
+              'activateAgent',
+              'deactivateAgent',
+              'deleteAgent',
+              'sendTypingIndicator',
+              'beginStream',
+              'appendToStream',
+              'finalizeStream',
+            ],
           },
         },
         modes: [
@@ -118,6 +278,158 @@ export class Lerty implements INodeType {
           },
         ],
       },
+      {
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: 'Acme Support',
+        displayOptions: {
+          show: {
+            operation: ['createAgent'],
+          },
+        },
+        description: 'Name of the new agent',
+      },
+      {
+        displayName: 'Agent Fields',
+        name: 'agentFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['createAgent'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Description',
+            name: 'description',
+            type: 'string',
+            typeOptions: {
+              rows: 3,
+            },
+            default: '',
+            description: 'What the agent is for',
+          },
+          {
+            displayName: 'Metadata',
+            name: 'metadata',
+            type: 'fixedCollection',
+            placeholder: 'Add Metadata',
+            default: {},
+            typeOptions: {
+              multipleValues: true,
+            },
+            description: 'Custom key/value data stored on the agent',
+            options: [
+              {
+                name: 'metadataValues',
+                displayName: 'Metadata',
+                values: [
+                  {
+                    displayName: 'Key',
+                    name: 'key',
+                    type: 'string',
+                    default: '',
+                    description: 'Metadata key',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    description: 'Metadata value',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'Status',
+            name: 'status',
+            type: 'options',
+            options: [
+              {
+                name: 'Active',
+                value: 'active',
+              },
+              {
+                name: 'Inactive',
+                value: 'inactive',
+              },
+            ],
+            default: 'active',
+            description: 'Whether the agent accepts messages right after it is created',
+          },
+        ],
+      },
+      {
+        displayName: 'Update Fields',
+        name: 'updateFields',
+        type: 'collection',
+        placeholder: 'Add Field',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['updateAgent'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Description',
+            name: 'description',
+            type: 'string',
+            typeOptions: {
+              rows: 3,
+            },
+            default: '',
+            description: 'What the agent is for',
+          },
+          {
+            displayName: 'Metadata',
+            name: 'metadata',
+            type: 'fixedCollection',
+            placeholder: 'Add Metadata',
+            default: {},
+            typeOptions: {
+              multipleValues: true,
+            },
+            description: 'Replaces the metadata stored on the agent',
+            options: [
+              {
+                name: 'metadataValues',
+                displayName: 'Metadata',
+                values: [
+                  {
+                    displayName: 'Key',
+                    name: 'key',
+                    type: 'string',
+                    default: '',
+                    description: 'Metadata key',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    description: 'Metadata value',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+            description: 'New name of the agent',
+          },
+        ],
+      },
       {
         displayName: 'Conversation ID',
         name: 'conversationId',
@@ -127,11 +439,61 @@ export class Lerty implements INodeType {
         placeholder: 'conversation_123',
         displayOptions: {
           show: {
-            operation: ['replyToConversation'],
+            operation: ['replyToConversation', 'beginStream', 'appendToStream', 'finalizeStream'],
           },
         },
         description: 'ID of the conversation to reply to',
       },
+      {
+        displayName: 'Stream Message ID',
+        name: 'streamMessageId',
+        type: 'string',
+        required: true,
+        default: '={{ $json.message_id }}',
+        displayOptions: {
+          show: {
+            operation: ['appendToStream', 'finalizeStream'],
+          },
+        },
+        description: 'The message_id output by Begin Streamed Reply',
+      },
+      {
+        displayName: 'Chunk',
+        name: 'chunk',
+        type: 'string',
+        required: true,
+        default: '',
+        displayOptions: {
+          show: {
+            operation: ['appendToStream'],
+          },
+        },
+        description: 'Content generated since the previous chunk',
+      },
+      {
+        displayName: 'Stream Options',
+        name: 'streamOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['appendToStream'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Chunk Index',
+            name: 'chunkIndex',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 0,
+            description: 'Position of the chunk in the reply, starting at 0. Defaults to the next_index output by Begin Streamed Reply or the previous Append to Streamed Reply, or else to the item\'s position.',
+          },
+        ],
+      },
       {
         displayName: 'Conversation ID',
         name: 'conversationId',
@@ -146,6 +508,113 @@ export class Lerty implements INodeType {
         },
         description: 'ID of the conversation to send typing indicator to',
       },
+      {
+        displayName: 'Conversation ID',
+        name: 'conversationId',
+        type: 'string',
+        required: true,
+        default: '',
+        placeholder: 'conversation_123',
+        displayOptions: {
+          show: {
+            operation: ['getConversation', 'getMessages'],
+          },
+        },
+        description: 'ID of the conversation to retrieve',
+      },
+      {
+        displayName: 'Return All',
+        name: 'returnAll',
+        type: 'boolean',
+        default: false,
+        displayOptions: {
+          show: {
+            operation: ['listConversations', 'getMessages'],
+          },
+        },
+        description: 'Whether to return all results or only up to a given limit',
+      },
+      {
+        displayName: 'Limit',
+        name: 'limit',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 50,
+        displayOptions: {
+          show: {
+            operation: ['listConversations', 'getMessages'],
+            returnAll: [false],
+          },
+        },
+        description: 'Max number of results to return',
+      },
+      {
+        displayName: 'Filters',
+        name: 'filters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['listConversations'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Agent ID',
+            name: 'agentId',
+            type: 'string',
+            default: '',
+            placeholder: 'agent_123',
+            description: 'Only return conversations with this agent',
+          },
+          {
+            displayName: 'Created After',
+            name: 'createdAfter',
+            type: 'dateTime',
+            default: '',
+            description: 'Only return conversations started after this date',
+          },
+          {
+            displayName: 'Created Before',
+            name: 'createdBefore',
+            type: 'dateTime',
+            default: '',
+            description: 'Only return conversations started before this date',
+          },
+          {
+            displayName: 'Status',
+            name: 'status',
+            type: 'options',
+            options: [
+              {
+                name: 'Archived',
+                value: 'archived',
+              },
+              {
+                name: 'Closed',
+                value: 'closed',
+              },
+              {
+                name: 'Open',
+                value: 'open',
+              },
+            ],
+            default: 'open',
+            description: 'Only return conversations with this status',
+          },
+          {
+            displayName: 'User ID',
+            name: 'userId',
+            type: 'string',
+            default: '',
+            placeholder: 'user_123',
+            description: 'Only return conversations with this user',
+          },
+        ],
+      },
       {
         displayName: 'Typing',
         name: 'typing',
@@ -168,7 +637,7 @@ export class Lerty implements INodeType {
         placeholder: 'Hello, how can you help me?',
         displayOptions: {
           show: {
-            operation: ['sendMessage', 'replyToConversation'],
+            operation: ['sendMessage', 'sendAndWait', 'replyToConversation', 'finalizeStream'],
           },
         },
         description: 'The message to send',
@@ -181,7 +650,7 @@ export class Lerty implements INodeType {
         placeholder: 'conversation_123',
         displayOptions: {
           show: {
-            operation: ['sendMessage'],
+            operation: ['sendMessage', 'sendAndWait'],
           },
         },
         description: 'ID of the conversation (leave empty to start a new conversation)',
@@ -194,30 +663,39 @@ export class Lerty implements INodeType {
         placeholder: 'user_123',
         displayOptions: {
           show: {
-            operation: ['sendMessage'],
+            operation: ['sendMessage', 'sendAndWait'],
           },
         },
         description: 'ID of the user sending the message',
       },
       {
-        displayName: 'File Attachment',
+        displayName: 'File Attachments',
         name: 'fileAttachment',
         type: 'fixedCollection',
         default: {},
         placeholder: 'Add file attachment',
         displayOptions: {
           show: {
-            operation: ['sendMessage'],
+            operation: ['sendMessage', 'sendAndWait', 'replyToConversation', 'finalizeStream'],
           },
         },
         typeOptions: {
-          multipleValues: false,
+          multipleValues: true,
         },
         options: [
           {
             name: 'file',
             displayName: 'File',
             values: [
+              {
+                displayName: 'Input Binary Field',
+                name: 'binaryPropertyName',
+                type: 'string',
+                default: '',
+                placeholder: 'data',
+                hint: 'The name of the input binary field containing the file to upload',
+                description: 'Binary field of the input item to upload to Lerty. When set, the file is uploaded and its URL is attached instead of File URL.',
+              },
               {
                 displayName: 'File URL',
                 name: 'url',
@@ -227,20 +705,120 @@ export class Lerty implements INodeType {
                 description: 'URL of the file to attach',
               },
               {
-                displayName: 'File Name',
-                name: 'name',
-                type: 'string',
-                default: '',
-                placeholder: 'document.pdf',
-                description: 'Name of the file (optional)',
+                displayName: 'File Name',
+                name: 'name',
+                type: 'string',
+                default: '',
+                placeholder: 'document.pdf',
+                description: 'Name of the file (optional)',
+              },
+              {
+                displayName: 'File Type',
+                name: 'type',
+                type: 'string',
+                default: '',
+                placeholder: 'application/pdf',
+                description: 'MIME type of the file (optional)',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Wait Options',
+        name: 'waitOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['sendAndWait'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Poll Interval (Seconds)',
+            name: 'pollInterval',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 2,
+            description: 'How often to check the conversation history when no WebSocket connection is available',
+          },
+          {
+            displayName: 'Response Timeout (Seconds)',
+            name: 'responseTimeout',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 60,
+            description: 'How long to wait for the agent to respond before failing',
+          },
+        ],
+      },
+      {
+        displayName: 'Reply Options',
+        name: 'replyOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        displayOptions: {
+          show: {
+            operation: ['replyToConversation', 'finalizeStream'],
+          },
+        },
+        options: [
+          {
+            displayName: 'Content Format',
+            name: 'format',
+            type: 'options',
+            options: [
+              {
+                name: 'Markdown',
+                value: 'markdown',
+              },
+              {
+                name: 'Plain Text',
+                value: 'plain',
               },
+            ],
+            default: 'markdown',
+            description: 'How Lerty should render the reply content',
+          },
+          {
+            displayName: 'Quick Replies',
+            name: 'quickReplies',
+            type: 'fixedCollection',
+            placeholder: 'Add Quick Reply',
+            default: {},
+            typeOptions: {
+              multipleValues: true,
+            },
+            description: 'Buttons shown below the reply. Clicking one sends its value as the user\'s next message.',
+            options: [
               {
-                displayName: 'File Type',
-                name: 'type',
-                type: 'string',
-                default: '',
-                placeholder: 'application/pdf',
-                description: 'MIME type of the file (optional)',
+                name: 'buttons',
+                displayName: 'Button',
+                values: [
+                  {
+                    displayName: 'Label',
+                    name: 'label',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'Yes, this helped',
+                    description: 'Text shown on the button',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'helpful_yes',
+                    description: 'Value sent back when the button is clicked. Defaults to the label.',
+                  },
+                ],
               },
             ],
           },
@@ -253,6 +831,26 @@ export class Lerty implements INodeType {
         placeholder: 'Add Field',
         default: {},
         options: [
+          {
+            displayName: 'File Transfer Timeout',
+            name: 'fileTimeout',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 120000,
+            description: 'Timeout for file uploads and downloads in milliseconds',
+          },
+          {
+            displayName: 'Max Retries',
+            name: 'maxRetries',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 3,
+            description: 'How often to retry Lerty API requests that fail with 429, 502, 503, 504 or a network error',
+          },
           {
             displayName: 'Metadata',
             name: 'metadata',
@@ -289,8 +887,30 @@ export class Lerty implements INodeType {
             displayName: 'Timeout',
             name: 'timeout',
             type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
             default: 30000,
-            description: 'Request timeout in milliseconds',
+            description: 'Timeout for Lerty API calls in milliseconds',
+          },
+          {
+            displayName: 'Transport',
+            name: 'transport',
+            type: 'options',
+            options: [
+              {
+                name: 'Auto',
+                value: 'auto',
+                description: 'Push over the agent\'s WebSocket channel when the credential has a WebSocket URL, falling back to HTTP',
+              },
+              {
+                name: 'HTTP Only',
+                value: 'http',
+                description: 'Always use the HTTP endpoints',
+              },
+            ],
+            default: 'auto',
+            description: 'How Send Message, Reply to Conversation, the streamed reply operations and Send Typing Indicator reach Lerty. Nodes added before version 2 use HTTP Only unless this is set.',
           },
         ],
       },
@@ -324,6 +944,9 @@ export class Lerty implements INodeType {
             results,
           };
         } catch (error) {
+          if (error instanceof LertyApiError) {
+            throw toNodeApiError(this.getNode(), error);
+          }
           throw new NodeOperationError(this.getNode(), `Failed to load agents: ${error}`, {
             description: 'Make sure your API credentials are correct and the Lerty API is accessible',
           });
@@ -337,57 +960,123 @@ export class Lerty implements INodeType {
     const results: INodeExecutionData[] = [];
 
     const credentials = await this.getCredentials('lertyApi');
-    const lertyHttp = new LertyHttp({
-      baseUrl: credentials.baseUrl as string,
+    // Shared by all items so the WebSocket is opened at most once per execution
+    const transport = new LertyTransport({
+      wsUrl: credentials.wsUrl as string | undefined,
       apiToken: credentials.apiToken as string,
     });
 
-    for (let i = 0; i < items.length; i++) {
-      const operation = this.getNodeParameter('operation', i) as string;
-
-      try {
-        let responseData: any;
-
-        switch (operation) {
-          case 'replyToConversation':
-            responseData = await replyToConversation(this, lertyHttp, i);
-            break;
-          case 'sendMessage':
-            responseData = await sendMessage(this, lertyHttp, i);
-            break;
-          case 'sendTypingIndicator':
-            responseData = await sendTypingIndicator(this, lertyHttp, i);
-            break;
-          case 'getAgent':
-            responseData = await getAgent(this, lertyHttp, i);
-            break;
-          case 'listAgents':
-            responseData = await listAgents(this, lertyHttp, i);
-            break;
-          default:
-            throw new NodeOperationError(
-              this.getNode(),
-              `Unknown operation: ${operation}`,
-              { itemIndex: i }
-            );
-        }
+    try {
+      for (let i = 0; i < items.length; i++) {
+        const operation = this.getNodeParameter('operation', i) as string;
 
-        results.push({
-          json: responseData,
-          pairedItem: { item: i },
-        });
-      } catch (error: any) {
-        if (this.continueOnFail()) {
-          results.push({
-            json: {
-              error: error.message,
-            },
-            pairedItem: { item: i },
+        try {
+          let responseData: any;
+
+          const additionalFields = this.getNodeParameter('additionalFields', i, {}) as IDataObject;
+          const lertyHttp = new LertyHttp({
+            baseUrl: credentials.baseUrl as string,
+            apiToken: credentials.apiToken as string,
+            timeout: additionalFields.timeout as number | undefined,
+            fileTimeout: additionalFields.fileTimeout as number | undefined,
+            maxRetries: additionalFields.maxRetries as number | undefined,
+          });
+
+          switch (operation) {
+            case 'replyToConversation':
+              responseData = await replyToConversation(this, lertyHttp, transport, i);
+              break;
+            case 'beginStream':
+              responseData = await beginStreamedReply(this, lertyHttp, transport, i);
+              break;
+            case 'appendToStream':
+              responseData = await appendToStreamedReply(this, lertyHttp, transport, i);
+              break;
+            case 'finalizeStream':
+              // The full reply takes the place of the streamed draft through the shared message_id
+              responseData = await replyToConversation(this, lertyHttp, transport, i, this.getNodeParameter('streamMessageId', i) as string);
+              break;
+            case 'sendMessage':
+              responseData = await sendMessage(this, lertyHttp, transport, i);
+              break;
+            case 'sendAndWait':
+              responseData = await sendAndWait(this, lertyHttp, i);
+              break;
+            case 'sendTypingIndicator':
+              responseData = await sendTypingIndicator(this, lertyHttp, transport, i);
+              break;
+            case 'getAgent':
+              responseData = await getAgent(this, lertyHttp, i);
+              break;
+            case 'listAgents':
+              responseData = await listAgents(this, lertyHttp, i);
+              break;
+            case 'createAgent':
+              responseData = await createAgent(this, lertyHttp, i);
+              break;
+            case 'updateAgent':
+              responseData = await updateAgent(this, lertyHttp, i);
+              break;
+            case 'activateAgent':
+              responseData = await setAgentStatus(this, lertyHttp, i, 'active');
+              break;
+            case 'deactivateAgent':
+              responseData = await setAgentStatus(this, lertyHttp, i, 'inactive');
+              break;
+            case 'deleteAgent':
+              responseData = await deleteAgent(this, lertyHttp, i);
+              break;
+            case 'listConversations':
+              responseData = await listConversations(this, lertyHttp, i);
+              break;
+            case 'getConversation':
+              responseData = await getConversation(this, lertyHttp, i);
+              break;
+            case 'getMessages':
+              responseData = await getMessages(this, lertyHttp, i);
+              break;
+            default:
+              throw new NodeOperationError(
+                this.getNode(),
+                `Unknown operation: ${operation}`,
+                { itemIndex: i }
+              );
+          }
+
+          // List operations return one output item per entry
+          const entries = Array.isArray(responseData) ? responseData : [responseData];
+          entries.forEach((entry) => {
+            results.push({
+              json: entry,
+              pairedItem: { item: i },
+            });
           });
-        } else {
-          throw error;
+        } catch (caughtError: any) {
+          let error = caughtError;
+          if (error instanceof LertyApiError) {
+            error = toNodeApiError(this.getNode(), error, i);
+          } else if (error instanceof LertyTimeoutError) {
+            error = new NodeOperationError(this.getNode(), error, {
+              itemIndex: i,
+              description: 'Lerty did not respond in time. Increase the Timeout options or try again later.',
+            });
+          }
+
+          if (this.continueOnFail()) {
+            results.push({
+              json: {
+                error: error.message,
+                ...(error.httpCode ? { httpCode: error.httpCode } : {}),
+              },
+              pairedItem: { item: i },
+            });
+          } else {
+            throw error;
+          }
         }
       }
+    } finally {
+      await transport.close();
     }
 
     return [results];
@@ -395,6 +1084,9 @@ export class Lerty implements INodeType {
 
 }
 
+// Largest page requested from the Lerty API while paginating
+const PAGE_SIZE = 100;
+
 // Simple UUID v4 generator
 function generateUUID(): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
@@ -404,33 +1096,20 @@ function generateUUID(): string {
     });
 }
 
-async function replyToConversation(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<any> {
+async function replyToConversation(
+    executeFunctions: IExecuteFunctions,
+    lertyHttp: LertyHttp,
+    transport: LertyTransport,
+    itemIndex: number,
+    messageId = generateUUID(),
+  ): Promise<any> {
     const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
     const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex) as string;
     const message = executeFunctions.getNodeParameter('message', itemIndex) as string;
     
-    // Get the response webhook URL from the input data
+    // Get the response webhook URL from the input data, the typing indicator's pass-through or the Lerty Trigger
     const inputData = executeFunctions.getInputData()[itemIndex];
-    let responseWebhook = inputData.json.response_webhook as string;
-    
-    // If not found directly, check if it's in the original trigger data (passed through by typing indicator)
-    if (!responseWebhook && inputData.json._originalTriggerData) {
-      const originalTriggerData = inputData.json._originalTriggerData as IDataObject;
-      responseWebhook = originalTriggerData.response_webhook as string;
-    }
-    
-    // If still not found, try to find it in the workflow execution data from the LertyTrigger node
-    if (!responseWebhook) {
-      try {
-        const workflowData = executeFunctions.getWorkflowDataProxy(itemIndex);
-        const lertyTriggerData = workflowData.$('Lerty Trigger');
-        if (lertyTriggerData && lertyTriggerData.item && lertyTriggerData.item.json) {
-          responseWebhook = lertyTriggerData.item.json.response_webhook as string;
-        }
-      } catch (error) {
-        // Ignore errors if Lerty Trigger node is not found
-      }
-    }
+    const responseWebhook = getTriggerValue(executeFunctions, itemIndex, 'response_webhook') || '';
     
     // Log the raw values to debug expression evaluation
     console.log('Debug - agentId:', agentId);
@@ -455,95 +1134,147 @@ async function replyToConversation(executeFunctions: IExecuteFunctions, lertyHtt
       );
     }
     
-    if (!responseWebhook) {
+    const attachments = await buildAttachments(executeFunctions, lertyHttp, agentId, itemIndex);
+    const replyOptions = executeFunctions.getNodeParameter('replyOptions', itemIndex, {}) as IDataObject;
+    const additionalFields = executeFunctions.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+    const metadata = buildMetadata(additionalFields);
+    const quickReplies = buildQuickReplies(replyOptions);
+    const format = replyOptions.format as LertyContentFormat | undefined;
+
+    // The trigger answers Lerty with this node's output instead of a separate request
+    const responseMode = getTriggerValue(executeFunctions, itemIndex, 'response_mode');
+    const isSyncReply = responseMode === 'lastNode' || responseMode === 'responseNode';
+
+    if (!responseWebhook && !isSyncReply) {
       console.log('Warning: response_webhook not found in input data:', JSON.stringify(inputData.json, null, 2));
       
       // Fallback: try to use the agent webhook endpoint
       console.log('Falling back to agent webhook endpoint');
       
       const fallbackMessageData: Partial<LertyWebhookMessage> = {
-        id: generateUUID(),
+        id: messageId,
         content: message,
         conversationId: conversationId,
         agentId: agentId,
         type: 'agent_response',
         timestamp: new Date().toISOString(),
       };
+
+      if (attachments.length > 0) {
+        fallbackMessageData.attachments = attachments;
+      }
+      if (metadata) {
+        fallbackMessageData.metadata = metadata;
+      }
+      if (format) {
+        fallbackMessageData.format = format;
+      }
+      if (quickReplies.length > 0) {
+        fallbackMessageData.quickReplies = quickReplies;
+      }
       
-      return await lertyHttp.sendMessage(agentId, fallbackMessageData);
+      const delivery = await deliver(
+        executeFunctions,
+        transport,
+        lertyHttp,
+        itemIndex,
+        { agentId, event: 'message', payload: { ...fallbackMessageData }, messageId: fallbackMessageData.id },
+        () => lertyHttp.sendMessage(agentId, fallbackMessageData),
+      );
+      return withTransport(delivery, { ...fallbackMessageData });
     }
     
     // Try to get user_id and organization_id from trigger data
-    let userId = inputData.json.user_id as string || '';
-    let organizationId = inputData.json.organization_id as string || '';
+    const userId = getTriggerValue(executeFunctions, itemIndex, 'user_id') || '';
+    const organizationId = getTriggerValue(executeFunctions, itemIndex, 'organization_id') || '';
     
-    // If not found, try to get from workflow data
-    if ((!userId || !organizationId) && responseWebhook) {
-      try {
-        const workflowData = executeFunctions.getWorkflowDataProxy(itemIndex);
-        const lertyTriggerData = workflowData.$('Lerty Trigger');
-        if (lertyTriggerData && lertyTriggerData.item && lertyTriggerData.item.json) {
-          userId = userId || (lertyTriggerData.item.json.user_id as string) || '';
-          organizationId = organizationId || (lertyTriggerData.item.json.organization_id as string) || '';
-        }
-      } catch (error) {
-        // Ignore errors
-      }
-    }
-    
-    const messageData: IDataObject = {
+    const messageData: LertyAgentReply = {
+      type: 'agent_response',
       conversation_id: conversationId,
       content: message,
-      message_id: generateUUID(),
+      message_id: messageId,
       timestamp: new Date().toISOString(),
       // Include additional fields that might be needed
       user_id: userId,
       organization_id: organizationId,
     };
 
+    // Optional parts of the spec's agent_response payload
+    if (format) {
+      messageData.format = format;
+    }
+    if (metadata) {
+      messageData.metadata = metadata;
+    }
+    if (attachments.length > 0) {
+      messageData.attachments = attachments;
+    }
+    if (quickReplies.length > 0) {
+      messageData.quick_replies = quickReplies;
+    }
+
+    if (isSyncReply) {
+      return messageData;
+    }
+
+    const delivery = await deliver(
+      executeFunctions,
+      transport,
+      lertyHttp,
+      itemIndex,
+      { agentId, event: 'agent_response', payload: messageData, messageId: messageData.message_id },
+      () => postToResponseWebhook(executeFunctions, lertyHttp, responseWebhook, messageData, messageData.message_id, itemIndex),
+    );
+    return withTransport(delivery, messageData);
+  }
+
+// Posts an agent_response or stream event to the response webhook URL as a JSON payload
+async function postToResponseWebhook(
+    executeFunctions: IExecuteFunctions,
+    lertyHttp: LertyHttp,
+    responseWebhook: string,
+    body: IDataObject,
+    idempotencyKey: string,
+    itemIndex: number,
+  ): Promise<any> {
     try {
       console.log('Debug - Response webhook URL:', responseWebhook);
-      console.log('Debug - Request body:', JSON.stringify(messageData, null, 2));
-      
-      // Send to the response webhook URL
-      // Note: The standard workflow uses form parameters, not JSON
-      const formData = new URLSearchParams();
-      Object.keys(messageData).forEach(key => {
-        formData.append(key, String(messageData[key]));
-      });
-      
+      console.log('Debug - Request body:', JSON.stringify(body, null, 2));
+    
       const requestOptions: IHttpRequestOptions = {
         method: 'POST',
         url: responseWebhook,
         headers: {
           'Authorization': `Bearer ${lertyHttp['config'].apiToken}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
+          'Idempotency-Key': idempotencyKey,
         },
-        body: formData.toString(),
-        json: false,
+        body,
+        json: true,
+        timeout: lertyHttp['config'].timeout,
       };
-      
+    
       const response = await executeFunctions.helpers.httpRequest(requestOptions);
       return response;
     } catch (error: any) {
-      // Enhanced error logging for 422 errors
-      if (error.response?.status === 422) {
-        console.error('422 Error Details:');
-        console.error('Response body:', JSON.stringify(error.response.body, null, 2));
-        console.error('Request that failed:', {
-          agentId: agentId,
-          body: messageData,
-          conversationId: conversationId
-        });
-        
-        const errorDetails = error.response.body?.errors || error.response.body?.message || 'Unknown validation error';
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
         throw new NodeOperationError(
           executeFunctions.getNode(),
-          `Validation error (422): ${JSON.stringify(errorDetails)}. ConversationId: "${conversationId}"`,
-          { itemIndex, description: `Full error: ${JSON.stringify(error.response.body)}` }
+          new LertyTimeoutError(responseWebhook, lertyHttp['config'].timeout!),
+          { itemIndex, description: 'The response webhook did not answer in time. Increase the Timeout option or try again later.' }
         );
       }
-      
+
+      // Map HTTP errors from the response webhook like any other Lerty API error
+      if (error.response?.status) {
+        const apiError = new LertyApiError(
+          error.response.status,
+          'POST',
+          responseWebhook,
+          error.response.data ?? error.response.body,
+        );
+        throw toNodeApiError(executeFunctions.getNode(), apiError, itemIndex);
+      }
+    
       throw new NodeOperationError(
         executeFunctions.getNode(),
         `Failed to reply to conversation: ${error instanceof Error ? error.message : String(error)}`,
@@ -552,12 +1283,189 @@ async function replyToConversation(executeFunctions: IExecuteFunctions, lertyHtt
     }
   }
 
-async function sendMessage(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<any> {
+// Starts a streamed reply. Its message_id and next_index feed Append to Streamed Reply and Finalize Streamed Reply.
+async function beginStreamedReply(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, transport: LertyTransport, itemIndex: number): Promise<IDataObject> {
+    const messageId = generateUUID();
+    const event = LertyResponseStream.buildStart(getStreamConversationId(executeFunctions, itemIndex), messageId);
+    const delivery = await sendStreamEvent(executeFunctions, lertyHttp, transport, itemIndex, event, LertyResponseStream.buildIdempotencyKey(messageId));
+
+    return { ...event, next_index: 0, transport: delivery.transport, _originalTriggerData: getOriginalTriggerData(executeFunctions, itemIndex) };
+  }
+
+async function appendToStreamedReply(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, transport: LertyTransport, itemIndex: number): Promise<IDataObject> {
+    const messageId = executeFunctions.getNodeParameter('streamMessageId', itemIndex) as string;
+    const delta = executeFunctions.getNodeParameter('chunk', itemIndex) as string;
+    const streamOptions = executeFunctions.getNodeParameter('streamOptions', itemIndex, {}) as IDataObject;
+    const { json } = executeFunctions.getInputData()[itemIndex];
+    const index = (streamOptions.chunkIndex as number | undefined)
+      ?? (typeof json.next_index === 'number' ? json.next_index : itemIndex);
+
+    if (!messageId) {
+      throw new NodeOperationError(executeFunctions.getNode(), 'Stream Message ID is required, use the message_id output by Begin Streamed Reply', { itemIndex });
+    }
+
+    const event = LertyResponseStream.buildChunk(getStreamConversationId(executeFunctions, itemIndex), messageId, index, delta);
+    const delivery = await sendStreamEvent(executeFunctions, lertyHttp, transport, itemIndex, event, LertyResponseStream.buildIdempotencyKey(messageId, index));
+
+    return { ...event, next_index: index + 1, transport: delivery.transport, _originalTriggerData: getOriginalTriggerData(executeFunctions, itemIndex) };
+  }
+
+// Stream events go over the agent's channel, or to the response webhook without a socket
+async function sendStreamEvent(
+    executeFunctions: IExecuteFunctions,
+    lertyHttp: LertyHttp,
+    transport: LertyTransport,
+    itemIndex: number,
+    event: IDataObject,
+    idempotencyKey: string,
+  ): Promise<LertyTransportResult<any>> {
+    const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const responseWebhook = getTriggerValue(executeFunctions, itemIndex, 'response_webhook');
+
+    return await deliver(
+      executeFunctions,
+      transport,
+      lertyHttp,
+      itemIndex,
+      { agentId, event: event.type as string, payload: event, messageId: idempotencyKey },
+      async () => {
+        // The agent webhook endpoint has no stream events
+        if (!responseWebhook) {
+          throw new NodeOperationError(
+            executeFunctions.getNode(),
+            'Streaming a reply needs a WebSocket URL in the Lerty API credentials or a response_webhook from the Lerty Trigger',
+            { itemIndex },
+          );
+        }
+        return await postToResponseWebhook(executeFunctions, lertyHttp, responseWebhook, event, idempotencyKey, itemIndex);
+      },
+    );
+  }
+
+function getStreamConversationId(executeFunctions: IExecuteFunctions, itemIndex: number): string {
+    const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex) as string;
+    if (!conversationId || conversationId.trim() === '') {
+      throw new NodeOperationError(executeFunctions.getNode(), 'Conversation ID is required but was empty', { itemIndex });
+    }
+    return conversationId;
+  }
+
+// Keeps the trigger data reachable for the next stream operation, however many are chained
+function getOriginalTriggerData(executeFunctions: IExecuteFunctions, itemIndex: number): IDataObject {
+    const { json } = executeFunctions.getInputData()[itemIndex];
+    return (json._originalTriggerData as IDataObject | undefined) ?? json;
+  }
+
+// Reads a field of the Lerty Trigger output from the item, the data passed through
+// Send Typing Indicator or the trigger node itself
+function getTriggerValue(executeFunctions: IExecuteFunctions, itemIndex: number, field: string): string | undefined {
+    const inputData = executeFunctions.getInputData()[itemIndex];
+    const value = readTriggerField(inputData.json, field)
+      || readTriggerField(inputData.json._originalTriggerData as IDataObject | undefined, field);
+    if (value) {
+      return value;
+    }
+
+    try {
+      const lertyTriggerData = executeFunctions.getWorkflowDataProxy(itemIndex).$('Lerty Trigger');
+      return readTriggerField(lertyTriggerData?.item?.json, field);
+    } catch (error) {
+      // Lerty Trigger node is not part of the workflow
+      return undefined;
+    }
+  }
+
+// Version 2 of the trigger keeps the fields needed to reply in reply_context
+function readTriggerField(data: IDataObject | undefined, field: string): string | undefined {
+    const replyContext = data?.reply_context as IDataObject | undefined;
+    return ((data?.[field] || replyContext?.[field]) as string | undefined) || undefined;
+  }
+
+async function sendMessage(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, transport: LertyTransport, itemIndex: number): Promise<any> {
+    const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const messageData = await buildUserMessage(executeFunctions, lertyHttp, agentId, itemIndex);
+
+    const delivery = await deliver(
+      executeFunctions,
+      transport,
+      lertyHttp,
+      itemIndex,
+      { agentId, event: 'message', payload: { ...messageData }, messageId: messageData.id },
+      () => lertyHttp.sendMessage(agentId, messageData),
+    );
+    return withTransport(delivery, { ...messageData });
+  }
+
+// Uses the WebSocket transport unless the item asks for HTTP only, or the node predates version 2 and
+// has no transport set
+async function deliver<T>(
+    executeFunctions: IExecuteFunctions,
+    transport: LertyTransport,
+    lertyHttp: LertyHttp,
+    itemIndex: number,
+    push: LertyTransportPush,
+    httpFallback: () => Promise<T>,
+  ): Promise<LertyTransportResult<T>> {
+    const additionalFields = executeFunctions.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+    const defaultTransport = executeFunctions.getNode().typeVersion >= 2 ? 'auto' : 'http';
+    if ((additionalFields.transport ?? defaultTransport) === 'http') {
+      return { transport: 'http', response: await httpFallback() };
+    }
+
+    return await transport.deliver(lertyHttp, push, httpFallback);
+  }
+
+// Socket pushes have no response body, so output what was sent
+function withTransport(delivery: LertyTransportResult<any>, sent: IDataObject): IDataObject {
+    const response = delivery.transport === 'websocket' ? sent : delivery.response;
+    const output = response !== null && typeof response === 'object' ? response : { response };
+    return { ...output, transport: delivery.transport };
+  }
+
+async function sendAndWait(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<any> {
     const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const waitOptions = executeFunctions.getNodeParameter('waitOptions', itemIndex, {}) as IDataObject;
+    const credentials = await executeFunctions.getCredentials('lertyApi');
+
+    // The agent's tenant and organization are needed to listen on its channel
+    const agent = await lertyHttp.getAgent(agentId);
+    const responseTimeout = (waitOptions.responseTimeout as number) || 60;
+
+    const messageData = await buildUserMessage(executeFunctions, lertyHttp, agentId, itemIndex);
+    const { response } = await LertyResponseWaiter.sendAndWait({
+      lertyHttp,
+      agent,
+      wsUrl: credentials.wsUrl as string | undefined,
+      apiToken: credentials.apiToken as string,
+      timeout: responseTimeout * 1000,
+      pollInterval: ((waitOptions.pollInterval as number) || 2) * 1000,
+    }, messageData);
+
+    if (!response) {
+      throw new NodeOperationError(
+        executeFunctions.getNode(),
+        `Agent ${agentId} did not respond within ${responseTimeout} seconds`,
+        { itemIndex, description: 'Increase the Response Timeout option if the agent needs longer to answer' }
+      );
+    }
+
+    return {
+      content: response.content,
+      attachments: response.attachments,
+      metadata: response.metadata,
+      message_id: response.id,
+      conversation_id: response.conversationId,
+      agent_id: agentId,
+      timestamp: response.timestamp,
+      received_via: response.receivedVia,
+      request_message_id: messageData.id,
+    };
+  }
+
+async function buildUserMessage(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, agentId: string, itemIndex: number): Promise<Partial<LertyWebhookMessage>> {
     const message = executeFunctions.getNodeParameter('message', itemIndex) as string;
     const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex, '') as string;
     const userId = executeFunctions.getNodeParameter('userId', itemIndex, '') as string;
-    const fileAttachment = executeFunctions.getNodeParameter('fileAttachment', itemIndex, {}) as IDataObject;
     const additionalFields = executeFunctions.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
 
     const messageData: Partial<LertyWebhookMessage> = {
@@ -569,29 +1477,117 @@ async function sendMessage(executeFunctions: IExecuteFunctions, lertyHttp: Lerty
       timestamp: new Date().toISOString(),
     };
 
-    // Add file attachment if provided
-    if (fileAttachment.file) {
-      const file = fileAttachment.file as IDataObject;
-      if (file.url) {
-        messageData.fileUrl = file.url as string;
-        messageData.fileName = file.name as string || 'file';
-        messageData.fileType = file.type as string || 'application/octet-stream';
-      }
+    // Add file attachments if provided
+    const attachments = await buildAttachments(executeFunctions, lertyHttp, agentId, itemIndex);
+    if (attachments.length > 0) {
+      messageData.attachments = attachments;
+      // Older Lerty deployments only read the single-file fields
+      messageData.fileUrl = attachments[0].url;
+      messageData.fileName = attachments[0].filename;
+      messageData.fileType = attachments[0].mime_type;
     }
 
     // Add metadata if provided
-    if (additionalFields.metadata) {
-      const metadata = additionalFields.metadata as IDataObject;
-      const metadataValues = metadata.metadataValues as IDataObject[];
-      if (metadataValues && metadataValues.length > 0) {
-        messageData.metadata = {};
-        metadataValues.forEach((item) => {
-          messageData.metadata![item.key as string] = item.value;
-        });
+    const metadata = buildMetadata(additionalFields);
+    if (metadata) {
+      messageData.metadata = metadata;
+    }
+
+    return messageData;
+  }
+
+function buildMetadata(additionalFields: IDataObject): IDataObject | undefined {
+    const metadata = additionalFields.metadata as IDataObject | undefined;
+    const metadataValues = metadata?.metadataValues as IDataObject[] | undefined;
+    if (!metadataValues || metadataValues.length === 0) {
+      return undefined;
+    }
+
+    const result: IDataObject = {};
+    metadataValues.forEach((item) => {
+      result[item.key as string] = item.value;
+    });
+    return result;
+  }
+
+function buildQuickReplies(replyOptions: IDataObject): LertyQuickReply[] {
+    const quickReplies = replyOptions.quickReplies as IDataObject | undefined;
+    const buttons = (quickReplies?.buttons as IDataObject[] | undefined) ?? [];
+
+    return buttons
+      .filter((button) => button.label)
+      .map((button) => ({
+        label: button.label as string,
+        value: (button.value as string) || (button.label as string),
+      }));
+  }
+
+async function buildAttachments(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, agentId: string, itemIndex: number): Promise<LertyAttachment[]> {
+    const fileAttachment = executeFunctions.getNodeParameter('fileAttachment', itemIndex, {}) as IDataObject;
+    if (!fileAttachment.file) {
+      return [];
+    }
+
+    // Workflows saved before multiple attachments were supported store a single object
+    const files = Array.isArray(fileAttachment.file)
+      ? (fileAttachment.file as IDataObject[])
+      : [fileAttachment.file as IDataObject];
+
+    const attachments: LertyAttachment[] = [];
+    for (const file of files) {
+      if (file.binaryPropertyName) {
+        const uploadedFile = await uploadBinaryFile(executeFunctions, lertyHttp, agentId, file, itemIndex);
+        attachments.push(FileUtils.toLertyAttachment(
+          uploadedFile.url,
+          uploadedFile.filename,
+          uploadedFile.mime_type,
+          uploadedFile.size,
+        ));
+      } else if (file.url) {
+        attachments.push(FileUtils.toLertyAttachment(
+          file.url as string,
+          (file.name as string) || undefined,
+          (file.type as string) || undefined,
+        ));
       }
     }
 
-    return await lertyHttp.sendMessage(agentId, messageData);
+    return attachments;
+  }
+
+async function uploadBinaryFile(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, agentId: string, file: IDataObject, itemIndex: number): Promise<LertyUploadedFile> {
+    const binaryPropertyName = file.binaryPropertyName as string;
+    const binaryData = executeFunctions.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+    const buffer = await executeFunctions.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+
+    const fileName = (file.name as string) || binaryData.fileName || 'file';
+    const mimeType = (file.type as string) || binaryData.mimeType || 'application/octet-stream';
+
+    if (!FileUtils.validateFileType(mimeType)) {
+      throw new NodeOperationError(
+        executeFunctions.getNode(),
+        `File type "${mimeType}" of "${fileName}" is not supported by Lerty`,
+        { itemIndex }
+      );
+    }
+
+    if (!FileUtils.validateFileSize(buffer.length)) {
+      throw new NodeOperationError(
+        executeFunctions.getNode(),
+        `File "${fileName}" is too large (${FileUtils.formatFileSize(buffer.length)})`,
+        { itemIndex }
+      );
+    }
+
+    if (!(await FileUtils.validateFileContent(buffer, mimeType))) {
+      throw new NodeOperationError(
+        executeFunctions.getNode(),
+        `Content of "${fileName}" does not match its file type "${mimeType}"`,
+        { itemIndex }
+      );
+    }
+
+    return await lertyHttp.uploadFile(agentId, buffer, fileName, mimeType);
   }
 
 async function getAgent(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<any> {
@@ -604,38 +1600,154 @@ async function listAgents(executeFunctions: IExecuteFunctions, lertyHttp: LertyH
     return { agents, count: agents.length };
   }
 
+async function createAgent(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<LertyAgent> {
+    const name = executeFunctions.getNodeParameter('name', itemIndex) as string;
+    const agentFields = executeFunctions.getNodeParameter('agentFields', itemIndex, {}) as IDataObject;
+
+    const agent: LertyAgentInput & { name: string } = { name };
+    if (agentFields.description) {
+      agent.description = agentFields.description as string;
+    }
+    if (agentFields.status) {
+      agent.status = agentFields.status as LertyAgent['status'];
+    }
+    const metadata = buildMetadata(agentFields);
+    if (metadata) {
+      agent.metadata = metadata;
+    }
+
+    return await lertyHttp.createAgent(agent);
+  }
+
+async function updateAgent(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<LertyAgent> {
+    const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const updateFields = executeFunctions.getNodeParameter('updateFields', itemIndex, {}) as IDataObject;
+
+    const changes: LertyAgentInput = {};
+    if (updateFields.name) {
+      changes.name = updateFields.name as string;
+    }
+    if (updateFields.description !== undefined) {
+      changes.description = updateFields.description as string;
+    }
+    const metadata = buildMetadata(updateFields);
+    if (metadata) {
+      changes.metadata = metadata;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new NodeOperationError(
+        executeFunctions.getNode(),
+        'Add at least one field to update',
+        { itemIndex }
+      );
+    }
+
+    return await lertyHttp.updateAgent(agentId, changes);
+  }
+
+async function setAgentStatus(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number, status: LertyAgent['status']): Promise<LertyAgent> {
+    const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    return await lertyHttp.setAgentStatus(agentId, status);
+  }
+
+async function deleteAgent(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<IDataObject> {
+    const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    await lertyHttp.deleteAgent(agentId);
+    return { deleted: true, agent_id: agentId };
+  }
+
+async function listConversations(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<LertyConversation[]> {
+    const filters = executeFunctions.getNodeParameter('filters', itemIndex, {}) as IDataObject;
+    const conversationFilters: LertyConversationFilters = {
+      agentId: (filters.agentId as string) || undefined,
+      userId: (filters.userId as string) || undefined,
+      status: (filters.status as string) || undefined,
+      createdAfter: filters.createdAfter ? new Date(filters.createdAfter as string).toISOString() : undefined,
+      createdBefore: filters.createdBefore ? new Date(filters.createdBefore as string).toISOString() : undefined,
+    };
+
+    return await fetchPages(executeFunctions, itemIndex, (page) =>
+      lertyHttp.listConversations(conversationFilters, page),
+    );
+  }
+
+async function getConversation(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<LertyConversation> {
+    const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex) as string;
+    return await lertyHttp.getConversation(conversationId);
+  }
+
+async function getMessages(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<LertyConversationMessage[]> {
+    const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex) as string;
+    return await fetchPages(executeFunctions, itemIndex, (page) =>
+      lertyHttp.getConversationMessages(conversationId, page),
+    );
+  }
+
+// Follows `nextCursor` until the limit is reached, or the last page when Return All is set
+async function fetchPages<T>(
+    executeFunctions: IExecuteFunctions,
+    itemIndex: number,
+    fetchPage: (page: LertyPageOptions) => Promise<LertyPage<T>>,
+  ): Promise<T[]> {
+    const returnAll = executeFunctions.getNodeParameter('returnAll', itemIndex, false) as boolean;
+    const limit = returnAll ? Infinity : (executeFunctions.getNodeParameter('limit', itemIndex, 50) as number);
+
+    const results: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await fetchPage({
+        cursor,
+        limit: Math.min(limit - results.length, PAGE_SIZE),
+      });
+      results.push(...page.data);
+      cursor = page.nextCursor;
+    } while (cursor && results.length < limit);
+
+    return results.slice(0, limit);
+  }
+
 
-async function sendTypingIndicator(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, itemIndex: number): Promise<any> {
+async function sendTypingIndicator(executeFunctions: IExecuteFunctions, lertyHttp: LertyHttp, transport: LertyTransport, itemIndex: number): Promise<any> {
     const agentId = executeFunctions.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
     const conversationId = executeFunctions.getNodeParameter('conversationId', itemIndex) as string;
     const typing = executeFunctions.getNodeParameter('typing', itemIndex) as boolean;
     
     // Check if we have a response_webhook in the input data to extract the correct base URL
     const inputData = executeFunctions.getInputData()[itemIndex];
-    const responseWebhook = inputData.json.response_webhook as string;
+    const responseWebhook = readTriggerField(inputData.json, 'response_webhook');
     
-    let typingResult;
-    
-    if (responseWebhook) {
-      // Extract base URL from response webhook
-      const webhookUrl = new URL(responseWebhook);
-      const baseUrl = `${webhookUrl.protocol}//${webhookUrl.host}`;
-      
-      // Create a temporary HTTP client with the correct base URL
-      const dynamicLertyHttp = new LertyHttp({
-        baseUrl: baseUrl,
-        apiToken: lertyHttp['config'].apiToken,
-      });
-      
-      typingResult = await dynamicLertyHttp.sendTypingIndicator(agentId, conversationId, typing);
-    } else {
+    const sendOverHttp = async () => {
+      if (responseWebhook) {
+        // Extract base URL from response webhook
+        const webhookUrl = new URL(responseWebhook);
+        const baseUrl = `${webhookUrl.protocol}//${webhookUrl.host}`;
+        
+        // Create a temporary HTTP client with the correct base URL
+        const dynamicLertyHttp = new LertyHttp({
+          ...lertyHttp['config'],
+          baseUrl: baseUrl,
+        });
+        
+        return await dynamicLertyHttp.sendTypingIndicator(agentId, conversationId, typing);
+      }
+
       // Fallback to the configured base URL
-      typingResult = await lertyHttp.sendTypingIndicator(agentId, conversationId, typing);
-    }
+      return await lertyHttp.sendTypingIndicator(agentId, conversationId, typing);
+    };
+
+    const delivery = await deliver(
+      executeFunctions,
+      transport,
+      lertyHttp,
+      itemIndex,
+      { agentId, event: 'typing', payload: { conversation_id: conversationId, typing }, idempotent: true },
+      sendOverHttp,
+    );
     
     // Preserve the original trigger data for subsequent nodes
     return {
-      ...typingResult,
+      ...withTransport(delivery, { conversation_id: conversationId, typing }),
       // Pass through the original trigger data so replyToConversation can access it
       _originalTriggerData: inputData.json
     };
@@ -0,0 +1,281 @@
+import {
+  IDataObject,
+  ILoadOptionsFunctions,
+  INodeListSearchResult,
+  INodeType,
+  INodeTypeDescription,
+  ISupplyDataFunctions,
+  NodeApiError,
+  NodeConnectionType,
+  NodeOperationError,
+  SupplyData,
+} from 'n8n-workflow';
+import { InputValues, OutputValues } from '@langchain/core/memory';
+import { randomUUID } from 'crypto';
+
+import { LertyHttp, LertyAgent, LertyAgentReply, LertyWebhookMessage } from '../../utils/LertyHttp';
+import { LertyApiError, toNodeApiError } from '../../utils/LertyErrors';
+import { LertyChatMemory as LertyConversationMemory } from '../../utils/LertyChatMemory';
+import { LertyTransport } from '../../utils/LertyTransport';
+
+export class LertyChatMemory implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Lerty Chat Memory',
+    name: 'lertyChatMemory',
+    icon: 'file:lerty.svg',
+    group: ['transform'],
+    version: 1,
+    description: 'Uses the history of a Lerty conversation as the memory of an AI Agent',
+    defaults: {
+      name: 'Lerty Chat Memory',
+    },
+    codex: {
+      categories: ['AI'],
+      subcategories: {
+        AI: ['Memory'],
+      },
+    },
+    inputs: [],
+    outputs: [NodeConnectionType.AiMemory],
+    outputNames: ['Memory'],
+    credentials: [
+      {
+        name: 'lertyApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Agent',
+        name: 'agentId',
+        type: 'resourceLocator',
+        default: { mode: 'list', value: '' },
+        required: true,
+        modes: [
+          {
+            displayName: 'From List',
+            name: 'list',
+            type: 'list',
+            placeholder: 'Select an agent...',
+            typeOptions: {
+              searchListMethod: 'searchAgents',
+              searchable: true,
+            },
+          },
+          {
+            displayName: 'By ID',
+            name: 'id',
+            type: 'string',
+            placeholder: 'agent_123',
+            validation: [
+              {
+                type: 'regex',
+                properties: {
+                  regex: '^[a-zA-Z0-9_-]+$',
+                  errorMessage: 'Agent ID must contain only letters, numbers, hyphens, and underscores',
+                },
+              },
+            ],
+          },
+        ],
+        description: 'The Lerty agent that answers in the conversation',
+      },
+      {
+        displayName: 'Conversation ID',
+        name: 'conversationId',
+        type: 'string',
+        default: '={{ $json.conversation?.id ?? $json.conversation_id }}',
+        required: true,
+        description: 'ID of the Lerty conversation to load the history from. Defaults to the conversation of the Lerty Trigger.',
+      },
+      {
+        displayName: 'Context Window Length',
+        name: 'contextWindowLength',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 10,
+        description: 'How many of the latest conversation messages the AI Agent receives as context',
+      },
+      {
+        displayName: 'Record Agent Replies',
+        name: 'recordReplies',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to post the AI Agent\'s answers to the conversation as agent responses, the way Reply to Conversation does. Only turn on when the workflow does not answer with Reply to Conversation, or users see every answer twice.',
+      },
+    ],
+  };
+
+  methods = {
+    listSearch: {
+      searchAgents: async function (
+        this: ILoadOptionsFunctions,
+        filter?: string,
+      ): Promise<INodeListSearchResult> {
+        const credentials = await this.getCredentials('lertyApi');
+        const lertyHttp = new LertyHttp({
+          baseUrl: credentials.baseUrl as string,
+          apiToken: credentials.apiToken as string,
+        });
+
+        try {
+          const agents = await lertyHttp.getAgents();
+          const results = agents
+            .filter((agent: LertyAgent) =>
+              !filter || agent.name.toLowerCase().includes(filter.toLowerCase())
+            )
+            .map((agent: LertyAgent) => ({
+              name: `${agent.name} (${agent.id})`,
+              value: agent.id,
+            }));
+
+          return {
+            results,
+          };
+        } catch (error) {
+          if (error instanceof LertyApiError) {
+            throw toNodeApiError(this.getNode(), error);
+          }
+          throw new NodeOperationError(this.getNode(), `Failed to load agents: ${error}`, {
+            description: 'Make sure your API credentials are correct and the Lerty API is accessible',
+          });
+        }
+      },
+    },
+  };
+
+  async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+    const agentId = this.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const conversationId = this.getNodeParameter('conversationId', itemIndex, '') as string;
+    const contextWindowLength = this.getNodeParameter('contextWindowLength', itemIndex, 10) as number;
+    const recordReplies = this.getNodeParameter('recordReplies', itemIndex, false) as boolean;
+    const credentials = await this.getCredentials('lertyApi');
+
+    if (!conversationId || conversationId.trim() === '') {
+      throw new NodeOperationError(this.getNode(), 'Conversation ID is required but was empty', {
+        itemIndex,
+        description: 'Connect the AI Agent to a Lerty Trigger or set the Conversation ID explicitly',
+      });
+    }
+
+    const lertyHttp = new LertyHttp({
+      baseUrl: credentials.baseUrl as string,
+      apiToken: credentials.apiToken as string,
+    });
+    const transport = new LertyTransport({
+      wsUrl: credentials.wsUrl as string | undefined,
+      apiToken: credentials.apiToken as string,
+    });
+
+    // Same path as Reply to Conversation: the agent channel, then the trigger's response webhook or the agent webhook
+    const replyContext = getReplyContext(this, itemIndex);
+    const recordReply = async (content: string): Promise<void> => {
+      const reply: LertyAgentReply = {
+        type: 'agent_response',
+        conversation_id: conversationId,
+        content,
+        message_id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        user_id: (replyContext.user_id as string) || '',
+        organization_id: (replyContext.organization_id as string) || '',
+      };
+      const responseWebhook = replyContext.response_webhook as string | undefined;
+      const message: Partial<LertyWebhookMessage> = {
+        id: reply.message_id,
+        content,
+        conversationId,
+        agentId,
+        type: 'agent_response',
+        timestamp: reply.timestamp,
+      };
+
+      await transport.deliver(
+        lertyHttp,
+        { agentId, event: 'agent_response', payload: reply, messageId: reply.message_id },
+        () => responseWebhook
+          ? this.helpers.httpRequest({
+            method: 'POST',
+            url: responseWebhook,
+            headers: {
+              'Authorization': `Bearer ${credentials.apiToken}`,
+              'Idempotency-Key': reply.message_id,
+            },
+            body: reply,
+            json: true,
+          })
+          : lertyHttp.sendMessage(agentId, message),
+      );
+    };
+
+    // With a synchronous trigger reply the workflow's answer already reaches Lerty in the webhook response
+    const isSyncReply = ['lastNode', 'responseNode'].includes(replyContext.response_mode as string);
+
+    const memory = new LertyConversationMemory({
+      lertyHttp,
+      conversationId,
+      contextWindowLength,
+      recordReply: recordReplies && !isSyncReply ? recordReply : undefined,
+    });
+
+    return {
+      response: logMemoryCalls(this, memory, itemIndex),
+      closeFunction: async () => {
+        await transport.close();
+      },
+    };
+  }
+}
+
+// Reply fields of the Lerty Trigger event the AI Agent answers, from reply_context (trigger version 2) or the top level
+function getReplyContext(supplyFunctions: ISupplyDataFunctions, itemIndex: number): IDataObject {
+  const json = supplyFunctions.getInputData()[itemIndex]?.json ?? {};
+  return { ...json, ...(json.reply_context as IDataObject | undefined) };
+}
+
+// Shows the loaded history and the saved turns in the node's output, the way n8n's memory nodes do
+function logMemoryCalls(
+  supplyFunctions: ISupplyDataFunctions,
+  memory: LertyConversationMemory,
+  itemIndex: number,
+): LertyConversationMemory {
+  const loadMemoryVariables = memory.loadMemoryVariables.bind(memory);
+  const saveContext = memory.saveContext.bind(memory);
+
+  memory.loadMemoryVariables = async (values: InputValues) => {
+    const { index } = supplyFunctions.addInputData(NodeConnectionType.AiMemory, [[{ json: { action: 'loadMemoryVariables', values } }]]);
+    try {
+      const variables = await loadMemoryVariables(values);
+      supplyFunctions.addOutputData(NodeConnectionType.AiMemory, index, [[{ json: { action: 'loadMemoryVariables', ...variables } }]]);
+      return variables;
+    } catch (error) {
+      supplyFunctions.addOutputData(NodeConnectionType.AiMemory, index, toNodeError(supplyFunctions, error, itemIndex));
+      throw error;
+    }
+  };
+
+  memory.saveContext = async (inputValues: InputValues, outputValues: OutputValues) => {
+    const { index } = supplyFunctions.addInputData(NodeConnectionType.AiMemory, [[{ json: { action: 'saveContext', input: inputValues, output: outputValues } }]]);
+    try {
+      await saveContext(inputValues, outputValues);
+      supplyFunctions.addOutputData(NodeConnectionType.AiMemory, index, [[{ json: { action: 'saveContext', input: inputValues, output: outputValues } }]]);
+    } catch (error) {
+      supplyFunctions.addOutputData(NodeConnectionType.AiMemory, index, toNodeError(supplyFunctions, error, itemIndex));
+      throw error;
+    }
+  };
+
+  return memory;
+}
+
+function toNodeError(
+  supplyFunctions: ISupplyDataFunctions,
+  error: unknown,
+  itemIndex: number,
+): NodeApiError | NodeOperationError {
+  if (error instanceof LertyApiError) {
+    return toNodeApiError(supplyFunctions.getNode(), error, itemIndex);
+  }
+  return new NodeOperationError(supplyFunctions.getNode(), error as Error, { itemIndex });
+}
@@ -0,0 +1,265 @@
+import {
+  IDataObject,
+  ILoadOptionsFunctions,
+  INodeListSearchResult,
+  INodeType,
+  INodeTypeDescription,
+  ISupplyDataFunctions,
+  NodeConnectionType,
+  NodeOperationError,
+  SupplyData,
+} from 'n8n-workflow';
+import { DynamicTool } from '@langchain/core/tools';
+import { randomUUID } from 'crypto';
+
+import { LertyHttp, LertyAgent, LertyWebhookMessage } from '../../utils/LertyHttp';
+import { LertyApiError, toNodeApiError } from '../../utils/LertyErrors';
+import { LertyResponseWaiter } from '../../utils/LertyResponseWaiter';
+
+export class LertyTool implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Lerty Agent Tool',
+    name: 'lertyTool',
+    icon: 'file:lerty.svg',
+    group: ['transform'],
+    version: 1,
+    description: 'Lets an AI Agent delegate questions to a Lerty agent',
+    defaults: {
+      name: 'Lerty Agent Tool',
+    },
+    codex: {
+      categories: ['AI'],
+      subcategories: {
+        AI: ['Tools'],
+      },
+    },
+    inputs: [],
+    outputs: [NodeConnectionType.AiTool],
+    outputNames: ['Tool'],
+    credentials: [
+      {
+        name: 'lertyApi',
+        required: true,
+      },
+    ],
+    properties: [
+      {
+        displayName: 'Agent',
+        name: 'agentId',
+        type: 'resourceLocator',
+        default: { mode: 'list', value: '' },
+        required: true,
+        modes: [
+          {
+            displayName: 'From List',
+            name: 'list',
+            type: 'list',
+            placeholder: 'Select an agent...',
+            typeOptions: {
+              searchListMethod: 'searchAgents',
+              searchable: true,
+            },
+          },
+          {
+            displayName: 'By ID',
+            name: 'id',
+            type: 'string',
+            placeholder: 'agent_123',
+            validation: [
+              {
+                type: 'regex',
+                properties: {
+                  regex: '^[a-zA-Z0-9_-]+$',
+                  errorMessage: 'Agent ID must contain only letters, numbers, hyphens, and underscores',
+                },
+              },
+            ],
+          },
+        ],
+        description: 'The Lerty agent the AI Agent can ask questions',
+      },
+      {
+        displayName: 'Tool Description',
+        name: 'toolDescription',
+        type: 'string',
+        typeOptions: {
+          rows: 3,
+        },
+        default: '',
+        placeholder: 'Answers questions about our billing and invoices',
+        description: 'Tells the AI Agent when to use this tool. Leave empty to use the description of the Lerty agent.',
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Poll Interval (Seconds)',
+            name: 'pollInterval',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 2,
+            description: 'How often to check the conversation history when no WebSocket connection is available',
+          },
+          {
+            displayName: 'Response Timeout (Seconds)',
+            name: 'responseTimeout',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 60,
+            description: 'How long to wait for the Lerty agent to answer',
+          },
+          {
+            displayName: 'User ID',
+            name: 'userId',
+            type: 'string',
+            default: '',
+            placeholder: 'user_123',
+            description: 'ID of the user the questions are asked on behalf of',
+          },
+        ],
+      },
+    ],
+  };
+
+  methods = {
+    listSearch: {
+      searchAgents: async function (
+        this: ILoadOptionsFunctions,
+        filter?: string,
+      ): Promise<INodeListSearchResult> {
+        const credentials = await this.getCredentials('lertyApi');
+        const lertyHttp = new LertyHttp({
+          baseUrl: credentials.baseUrl as string,
+          apiToken: credentials.apiToken as string,
+        });
+
+        try {
+          const agents = await lertyHttp.getAgents();
+          const results = agents
+            .filter((agent: LertyAgent) =>
+              !filter || agent.name.toLowerCase().includes(filter.toLowerCase())
+            )
+            .map((agent: LertyAgent) => ({
+              name: `${agent.name} (${agent.id})`,
+              value: agent.id,
+            }));
+
+          return {
+            results,
+          };
+        } catch (error) {
+          if (error instanceof LertyApiError) {
+            throw toNodeApiError(this.getNode(), error);
+          }
+          throw new NodeOperationError(this.getNode(), `Failed to load agents: ${error}`, {
+            description: 'Make sure your API credentials are correct and the Lerty API is accessible',
+          });
+        }
+      },
+    },
+  };
+
+  async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+    const agentId = this.getNodeParameter('agentId', itemIndex, '', { extractValue: true }) as string;
+    const toolDescription = this.getNodeParameter('toolDescription', itemIndex, '') as string;
+    const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
+    const credentials = await this.getCredentials('lertyApi');
+
+    const lertyHttp = new LertyHttp({
+      baseUrl: credentials.baseUrl as string,
+      apiToken: credentials.apiToken as string,
+    });
+
+    let agent: LertyAgent;
+    try {
+      agent = await lertyHttp.getAgent(agentId);
+    } catch (error) {
+      if (error instanceof LertyApiError) {
+        throw toNodeApiError(this.getNode(), error, itemIndex);
+      }
+      throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+    }
+
+    const responseTimeout = (options.responseTimeout as number) || 60;
+
+    const tool = new DynamicTool({
+      name: buildToolName(agent),
+      description: toolDescription || buildToolDescription(agent),
+      func: async (question: string) => {
+        const { index } = this.addInputData(NodeConnectionType.AiTool, [[{ json: { question } }]]);
+
+        try {
+          const message: Partial<LertyWebhookMessage> = {
+            id: randomUUID(),
+            content: question,
+            conversationId: `conversation_${randomUUID()}`,
+            userId: (options.userId as string) || undefined,
+            type: 'user_message',
+            timestamp: new Date().toISOString(),
+          };
+
+          const { conversationId, response } = await LertyResponseWaiter.sendAndWait({
+            lertyHttp,
+            agent,
+            wsUrl: credentials.wsUrl as string | undefined,
+            apiToken: credentials.apiToken as string,
+            timeout: responseTimeout * 1000,
+            pollInterval: ((options.pollInterval as number) || 2) * 1000,
+          }, message);
+
+          if (!response) {
+            throw new NodeOperationError(
+              this.getNode(),
+              `Lerty agent ${agent.name} did not respond within ${responseTimeout} seconds`,
+              { itemIndex },
+            );
+          }
+
+          this.addOutputData(NodeConnectionType.AiTool, index, [[{
+            json: {
+              response: response.content,
+              conversation_id: conversationId,
+              message_id: response.id,
+              received_via: response.receivedVia,
+            },
+          }]]);
+          return response.content;
+        } catch (error) {
+          const nodeError = error instanceof NodeOperationError
+            ? error
+            : new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+          this.addOutputData(NodeConnectionType.AiTool, index, nodeError);
+          // Let the AI Agent see the failure instead of aborting its run
+          return `There was an error asking the Lerty agent: "${nodeError.message}"`;
+        }
+      },
+    });
+
+    return {
+      response: tool,
+    };
+  }
+}
+
+// Tool names may only contain letters, numbers, underscores and hyphens
+function buildToolName(agent: LertyAgent): string {
+  const name = agent.name
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `ask_${name || agent.id}`.slice(0, 64);
+}
+
+function buildToolDescription(agent: LertyAgent): string {
+  const description = agent.description?.trim().replace(/\.+$/, '');
+  const purpose = description ? `${description}. ` : '';
+  return `${purpose}Ask the Lerty agent "${agent.name}" a question in natural language. Input is the question, output is the agent's answer.`;
+}
@@ -1,5 +1,7 @@
 import {
+  IBinaryKeyData,
   IDataObject,
+  INodeExecutionData,
   INodeType,
   INodeTypeDescription,
   ITriggerFunctions,
@@ -12,8 +14,23 @@ import {
   NodeConnectionType,
   NodeOperationError,
 } from 'n8n-workflow';
+import { createHash } from 'crypto';
 
-import { LertyHttp, LertyAgent } from '../../utils/LertyHttp';
+import { LertyHttp, LertyAgent, LertyWebhook, LertyWebhookRegistration } from '../../utils/LertyHttp';
+import {
+  LertyEventHandlers,
+  LertyWebSocket,
+  LertyMessage,
+  LertyResponseChunk,
+} from '../../utils/LertyWebSocket';
+import { LertyConnectionManager, LertyPooledSubscription, lertyConnections } from '../../utils/LertyConnectionManager';
+import { FileUtils } from '../../utils/FileUtils';
+import { LertyEventFilter } from '../../utils/LertyEventFilter';
+import { LertyEventNormalizer, LertyTriggerEvent } from '../../utils/LertyEventNormalizer';
+import { LertyDeduplicator, LertyMemoryStore, LertyStaticDataStore } from '../../utils/LertyDeduplicator';
+import { LertyApiError, toNodeApiError } from '../../utils/LertyErrors';
+
+type LertyAgentScope = 'single' | 'multiple' | 'all';
 
 export class LertyTrigger implements INodeType {
   description: INodeTypeDescription = {
@@ -21,7 +38,9 @@ export class LertyTrigger implements INodeType {
     name: 'lertyTrigger',
     icon: 'file:lertytrigger.svg',
     group: ['trigger'],
-    version: 1,
+    // Version 2 outputs the normalized event schema instead of the raw payload
+    version: [1, 2],
+    defaultVersion: 2,
     description: 'Triggers when receiving messages from Lerty agents',
     defaults: {
       name: 'Lerty Trigger',
@@ -38,23 +57,118 @@ export class LertyTrigger implements INodeType {
       {
         name: 'default',
         httpMethod: 'POST',
-        responseMode: 'onReceived',
+        responseMode: '={{$parameter["responseMode"]}}',
+        // In "When Last Node Finishes" mode Lerty receives the reply item as JSON
+        responseData: 'firstEntryJson',
         // Dynamic path to trigger UUID generation
-        path: '={{$parameter["agentId"]}}',
+        path: '={{$parameter["agentScope"] === "single" ? $parameter["agentId"] : "agents"}}',
       },
     ],
     properties: [
+      {
+        displayName: 'Connection Mode',
+        name: 'connectionMode',
+        type: 'options',
+        options: [
+          {
+            name: 'Webhook',
+            value: 'webhook',
+            description: 'Receive messages through an HTTP webhook called by Lerty',
+          },
+          {
+            name: 'WebSocket',
+            value: 'websocket',
+            description: 'Listen on the agent\'s Phoenix channel. Works behind NAT, no public URL needed.',
+          },
+        ],
+        default: 'webhook',
+        description: 'How to receive messages from Lerty',
+      },
+      {
+        displayName: 'Respond',
+        name: 'responseMode',
+        type: 'options',
+        displayOptions: {
+          show: {
+            connectionMode: ['webhook'],
+          },
+        },
+        options: [
+          {
+            name: 'Immediately',
+            value: 'onReceived',
+            description: 'Acknowledge the message right away. The reply is sent separately to the response webhook.',
+          },
+          {
+            name: 'When Last Node Finishes',
+            value: 'lastNode',
+            description: 'Return the first item of the last executed node, e.g. a Lerty Reply to Conversation, as the reply',
+          },
+          {
+            name: 'Using \'Respond to Webhook\' Node',
+            value: 'responseNode',
+            description: 'Return the reply from a Respond to Webhook node',
+          },
+        ],
+        default: 'onReceived',
+        description: 'When and how to answer Lerty. The synchronous modes deliver the agent answer in the webhook response and need a Lerty deployment that supports synchronous replies. Events ruled out by the filters are still answered with {"received": true, "filtered": true} instead of a reply, and redeliveries are not deduplicated.',
+      },
+      {
+        displayName: 'Agents',
+        name: 'agentScope',
+        type: 'options',
+        options: [
+          {
+            name: 'All Agents in the Organization',
+            value: 'all',
+            description: 'Receive messages for every agent the API token can access',
+          },
+          {
+            name: 'One Agent',
+            value: 'single',
+            description: 'Receive messages for a single agent',
+          },
+          {
+            name: 'Selected Agents',
+            value: 'multiple',
+            description: 'Receive messages for several agents in one workflow',
+          },
+        ],
+        default: 'single',
+        description: 'Which agents to receive messages from',
+      },
       {
         displayName: 'Agent Name or ID',
         name: 'agentId',
         type: 'options',
         required: true,
+        displayOptions: {
+          show: {
+            agentScope: ['single'],
+          },
+        },
         typeOptions: {
           loadOptionsMethod: 'getAgents',
         },
         default: '',
         description: 'The Lerty agent to receive messages from. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
       },
+      {
+        displayName: 'Agent Names or IDs',
+        name: 'agentIds',
+        type: 'multiOptions',
+        required: true,
+        displayOptions: {
+          show: {
+            agentScope: ['multiple'],
+          },
+        },
+        typeOptions: {
+          loadOptionsMethod: 'getAgents',
+        },
+        default: [],
+        description: 'The Lerty agents to receive messages from. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+      },
       {
         displayName: 'Event Types',
         name: 'eventTypes',
@@ -65,6 +179,11 @@ export class LertyTrigger implements INodeType {
             value: 'agent_response',
             description: 'Responses from agents',
           },
+          {
+            name: 'Agent Response Chunk',
+            value: 'agent_response_chunk',
+            description: 'Partial content of a streamed agent response',
+          },
           {
             name: 'User Message',
             value: 'user_message',
@@ -79,6 +198,111 @@ export class LertyTrigger implements INodeType {
         default: ['user_message'],
         description: 'Types of events to trigger on',
       },
+      {
+        displayName: 'Filters',
+        name: 'filters',
+        type: 'collection',
+        placeholder: 'Add Filter',
+        default: {},
+        description: 'Only start an execution for events matching these filters. Events that do not match are acknowledged without running the workflow.',
+        options: [
+          {
+            displayName: 'Content Matches Regex',
+            name: 'contentRegex',
+            type: 'string',
+            default: '',
+            placeholder: '^/(help|support)',
+            description: 'Regular expression the message content must match',
+          },
+          {
+            displayName: 'Conversation IDs',
+            name: 'conversationIds',
+            type: 'string',
+            default: '',
+            placeholder: 'conv_123, conv_456',
+            description: 'Comma-separated list of conversations to trigger on',
+          },
+          {
+            displayName: 'Has Attachments',
+            name: 'hasAttachments',
+            type: 'options',
+            options: [
+              {
+                name: 'With Attachments',
+                value: 'yes',
+              },
+              {
+                name: 'Without Attachments',
+                value: 'no',
+              },
+            ],
+            default: 'yes',
+            description: 'Whether the message must or must not carry attachments',
+          },
+          {
+            displayName: 'Match',
+            name: 'combine',
+            type: 'options',
+            options: [
+              {
+                name: 'All Filters',
+                value: 'and',
+                description: 'Trigger when every filter matches',
+              },
+              {
+                name: 'Any Filter',
+                value: 'or',
+                description: 'Trigger when at least one filter matches',
+              },
+            ],
+            default: 'and',
+            description: 'How to combine the filters',
+          },
+          {
+            displayName: 'Metadata',
+            name: 'metadata',
+            type: 'fixedCollection',
+            typeOptions: {
+              multipleValues: true,
+            },
+            default: {},
+            placeholder: 'Add Condition',
+            description: 'Metadata values the message must have, e.g. source equals web',
+            options: [
+              {
+                displayName: 'Condition',
+                name: 'conditions',
+                values: [
+                  {
+                    displayName: 'Key',
+                    name: 'key',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'source',
+                    description: 'Metadata key, use dots for nested keys (e.g. page.section)',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'web',
+                    description: 'Value the key must equal',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'User IDs',
+            name: 'userIds',
+            type: 'string',
+            default: '',
+            placeholder: 'user_123, user_456',
+            description: 'Comma-separated list of users to trigger on',
+          },
+        ],
+      },
       {
         displayName: 'Additional Fields',
         name: 'additionalFields',
@@ -86,6 +310,54 @@ export class LertyTrigger implements INodeType {
         placeholder: 'Add Field',
         default: {},
         options: [
+          {
+            displayName: 'Deduplication Store',
+            name: 'deduplicationStore',
+            type: 'options',
+            options: [
+              {
+                name: 'Workflow Static Data',
+                value: 'staticData',
+                description: 'Survives restarts, saved when an execution finishes',
+              },
+              {
+                name: 'Process Memory',
+                value: 'memory',
+                description: 'Also catches retries that arrive while the first execution is running, forgotten on restart',
+              },
+            ],
+            default: 'staticData',
+            description: 'Where to remember the IDs of messages already received',
+          },
+          {
+            displayName: 'Deduplication Window (Seconds)',
+            name: 'deduplicationWindow',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 600,
+            description: 'How long a message ID is remembered. Redeliveries of a message within this window are acknowledged without starting an execution. Set to 0 to disable. Not applied with a synchronous Respond mode, where a redelivery follows a failed run.',
+          },
+          {
+            displayName: 'Download Attachments',
+            name: 'downloadAttachments',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to download message attachments into binary properties (attachment_0, attachment_1, …)',
+          },
+          {
+            displayName: 'Include Raw Payload',
+            name: 'includeRawPayload',
+            type: 'boolean',
+            displayOptions: {
+              show: {
+                '@version': [2],
+              },
+            },
+            default: false,
+            description: 'Whether to add the payload as received from Lerty to the output as `raw`',
+          },
           {
             displayName: 'Secret Token',
             name: 'secretToken',
@@ -94,7 +366,17 @@ export class LertyTrigger implements INodeType {
               password: true,
             },
             default: '',
-            description: 'Secret token for webhook authentication',
+            description: 'Shared secret used to verify the HMAC-SHA256 signature Lerty sends in the X-Lerty-Signature header',
+          },
+          {
+            displayName: 'Signature Tolerance (Seconds)',
+            name: 'signatureTolerance',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 300,
+            description: 'How old the signed X-Lerty-Timestamp may be before a request is rejected as a replay. Set to 0 to disable the check.',
           },
         ],
       },
@@ -118,6 +400,9 @@ export class LertyTrigger implements INodeType {
             description: `ID: ${agent.id}`,
           }));
         } catch (error) {
+          if (error instanceof LertyApiError) {
+            throw toNodeApiError(this.getNode(), error);
+          }
           throw new NodeOperationError(this.getNode(), `Failed to load agents: ${error instanceof Error ? error.message : String(error)}`);
         }
       },
@@ -127,31 +412,58 @@ export class LertyTrigger implements INodeType {
   webhookMethods = {
     default: {
       async checkExists(this: IHookFunctions): Promise<boolean> {
-        const webhookUrl = this.getNodeWebhookUrl('default');
-        const agentId = this.getNodeParameter('agentId') as string;
+        const connectionMode = this.getNodeParameter('connectionMode', 'webhook') as string;
+
+        // Nothing to register when listening on the socket
+        if (connectionMode === 'websocket') {
+          return true;
+        }
+
+        const webhookData = this.getWorkflowStaticData('node');
         const credentials = await this.getCredentials('lertyApi');
-        
+
         const lertyHttp = new LertyHttp({
           baseUrl: credentials.baseUrl as string,
           apiToken: credentials.apiToken as string,
         });
 
         try {
-          // Check if webhook exists for this agent
-          // This would need to be implemented in your Lerty API
-          // For now, return false to always create
-          return false;
+          const agentIds = await resolveAgentIds(this, lertyHttp);
+          if (agentIds.length === 0) {
+            return false;
+          }
+
+          // A webhook with another URL, secret or event types is set up again, which replaces it
+          for (const agentId of agentIds) {
+            const webhook = await lertyHttp.getWebhook(agentId);
+            const registration = buildWebhookRegistration(this, agentId);
+            if (!webhook || !webhookMatches(webhook, registration, webhookData.secretFingerprint as string | undefined)) {
+              return false;
+            }
+          }
+
+          // Agents dropped from the selection still have to be removed
+          if (getRegisteredAgentIds(webhookData).some((agentId) => !agentIds.includes(agentId))) {
+            return false;
+          }
+
+          webhookData.agentIds = agentIds;
+          delete webhookData.agentId;
+          delete webhookData.webhookId;
+          return true;
         } catch (error) {
           return false;
         }
       },
 
       async create(this: IHookFunctions): Promise<boolean> {
-        const webhookUrl = this.getNodeWebhookUrl('default') as string;
-        const agentId = this.getNodeParameter('agentId') as string;
-        const eventTypes = this.getNodeParameter('eventTypes', []) as string[];
-        const additionalFields = this.getNodeParameter('additionalFields', {}) as IDataObject;
+        // Refuse to set up a webhook whose every delivery would fail on the filter
+        buildEventFilter(this);
         const credentials = await this.getCredentials('lertyApi');
+        // Store webhook data so it can be removed on deactivation
+        const webhookData = this.getWorkflowStaticData('node');
+        const previousAgentIds = getRegisteredAgentIds(webhookData);
+        const registeredAgentIds: string[] = [];
 
         const lertyHttp = new LertyHttp({
           baseUrl: credentials.baseUrl as string,
@@ -159,25 +471,38 @@ export class LertyTrigger implements INodeType {
         });
 
         try {
-          // Register webhook with Lerty
-          // This is a placeholder - implement actual API call
-          const body = {
-            url: webhookUrl,
-            agent_id: agentId,
-            event_types: eventTypes,
-            secret: additionalFields.secretToken || undefined,
-          };
-
-          // TODO: Make actual API call to register webhook
-          // await lertyHttp.registerWebhook(agentId, body);
-          
-          // Store webhook data for later use
-          const webhookData = this.getWorkflowStaticData('node');
-          webhookData.webhookId = `webhook_${agentId}_${Date.now()}`;
-          webhookData.agentId = agentId;
+          const agentIds = await resolveAgentIds(this, lertyHttp);
+          if (agentIds.length === 0) {
+            throw new NodeOperationError(this.getNode(), 'No Lerty agents found to register the webhook for');
+          }
+
+          // Lerty has one webhook per agent, so each agent gets the same trigger URL
+          for (const agentId of agentIds) {
+            await lertyHttp.registerWebhook(agentId, buildWebhookRegistration(this, agentId));
+            registeredAgentIds.push(agentId);
+          }
+
+          for (const agentId of previousAgentIds.filter((previous) => !agentIds.includes(previous))) {
+            await deleteOwnWebhook(this, lertyHttp, agentId).catch(() => {});
+          }
+
+          webhookData.agentIds = agentIds;
+          webhookData.secretFingerprint = fingerprintSecret(buildWebhookRegistration(this).secret);
+          delete webhookData.agentId;
+          delete webhookData.webhookId;
 
           return true;
         } catch (error) {
+          // Keep track of what was set up, so deactivating removes it
+          webhookData.agentIds = [...new Set([...previousAgentIds, ...registeredAgentIds])];
+          delete webhookData.agentId;
+
+          if (error instanceof NodeOperationError) {
+            throw error;
+          }
+          if (error instanceof LertyApiError) {
+            throw toNodeApiError(this.getNode(), error);
+          }
           throw new NodeOperationError(
             this.getNode(),
             `Failed to register webhook: ${error instanceof Error ? error.message : String(error)}`,
@@ -187,57 +512,206 @@ export class LertyTrigger implements INodeType {
 
       async delete(this: IHookFunctions): Promise<boolean> {
         const webhookData = this.getWorkflowStaticData('node');
-        const credentials = await this.getCredentials('lertyApi');
+        const agentIds = getRegisteredAgentIds(webhookData);
+
+        const forget = () => {
+          delete webhookData.agentIds;
+          delete webhookData.agentId;
+          delete webhookData.webhookId;
+          delete webhookData.secretFingerprint;
+        };
 
-        if (!webhookData.webhookId) {
+        if (agentIds.length === 0) {
+          forget();
           return true;
         }
 
+        const credentials = await this.getCredentials('lertyApi');
         const lertyHttp = new LertyHttp({
           baseUrl: credentials.baseUrl as string,
           apiToken: credentials.apiToken as string,
         });
 
-        try {
-          // Unregister webhook from Lerty
-          // TODO: Make actual API call to unregister webhook
-          // await lertyHttp.deleteWebhook(webhookData.agentId, webhookData.webhookId);
+        const remaining: string[] = [];
+        for (const agentId of agentIds) {
+          try {
+            await deleteOwnWebhook(this, lertyHttp, agentId);
+          } catch (error) {
+            // Already removed on the Lerty side
+            if (!(error instanceof LertyApiError && error.status === 404)) {
+              remaining.push(agentId);
+            }
+          }
+        }
 
-          delete webhookData.webhookId;
+        if (remaining.length > 0) {
+          webhookData.agentIds = remaining;
           delete webhookData.agentId;
-
-          return true;
-        } catch (error) {
           return false;
         }
+
+        forget();
+        return true;
       },
     },
   };
 
   async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
-    // Minimal implementation - webhooks are handled by webhook() method
-    return {
-      closeFunction: async () => {},
-      manualTriggerFunction: async () => {
-        throw new NodeOperationError(
-          this.getNode(),
-          'This node only works with webhooks. Please activate the workflow.',
+    const connectionMode = this.getNodeParameter('connectionMode', 'webhook') as string;
+    // Fails activation on an invalid filter, instead of every delivery failing later
+    const eventFilter = buildEventFilter(this);
+
+    if (connectionMode !== 'websocket') {
+      // Webhook mode is handled entirely by the webhook() method
+      return {
+        closeFunction: async () => {},
+        manualTriggerFunction: async () => {
+          throw new NodeOperationError(
+            this.getNode(),
+            'This node only works with webhooks. Please activate the workflow.',
+          );
+        },
+      };
+    }
+
+    const eventTypes = this.getNodeParameter('eventTypes', []) as string[];
+    const additionalFields = this.getNodeParameter('additionalFields', {}) as IDataObject;
+    const deduplicator = buildDeduplicator(this, additionalFields);
+    const includeRaw = additionalFields.includeRawPayload as boolean | undefined;
+    const nodeVersion = this.getNode().typeVersion;
+    const credentials = await this.getCredentials('lertyApi');
+
+    if (!credentials.wsUrl) {
+      throw new NodeOperationError(
+        this.getNode(),
+        'WebSocket mode requires a WebSocket URL in the Lerty API credentials',
+      );
+    }
+
+    const lertyHttp = new LertyHttp({
+      baseUrl: credentials.baseUrl as string,
+      apiToken: credentials.apiToken as string,
+    });
+
+    // Workflows using the same credential share one socket
+    const socketConfig = {
+      wsUrl: credentials.wsUrl as string,
+      apiToken: credentials.apiToken as string,
+    };
+
+    const subscribeToAgent = (agent: LertyAgent): Promise<LertyPooledSubscription> => {
+      // Streamed responses arrive as their own event, not as messages
+      const handlers: LertyEventHandlers = {};
+      if (eventTypes.includes('agent_response_chunk')) {
+        handlers.agent_response_chunk = (chunk) => {
+          const event = LertyEventNormalizer.normalize(
+            { type: 'agent_response_chunk', ...chunk },
+            { agentId: agent.id, agent, includeRaw },
+          );
+          if (!eventFilter.matches(event)) {
+            return;
+          }
+          void isDuplicate(deduplicator, event).then((duplicate) => {
+            if (!duplicate) {
+              this.emit([[{ json: nodeVersion >= 2 ? event : buildChunkOutput(chunk, agent) }]]);
+            }
+          });
+        };
+      }
+
+      // The channel topic is scoped by tenant and organization of the agent
+      return lertyConnections.subscribe(socketConfig, LertyWebSocket.buildAgentTopic(agent), async (message: LertyMessage) => {
+        if (eventTypes.length > 0 && !eventTypes.includes(message.type)) {
+          return;
+        }
+
+        // Normalize what Lerty sent, the parsed message drops fields like format and response_webhook
+        const event = LertyEventNormalizer.normalize(
+          message.raw ? { type: message.type, ...message.raw } : { ...message },
+          { agentId: agent.id, agent, includeRaw },
         );
-      },
+        if (!eventFilter.matches(event) || (await isDuplicate(deduplicator, event))) {
+          return;
+        }
+        const outputData = nodeVersion >= 2 ? event : buildWebSocketOutput(message, agent);
+        const item: INodeExecutionData = { json: outputData };
+
+        if (additionalFields.downloadAttachments) {
+          const { binary, errors } = await downloadAttachments(this, lertyHttp, outputData);
+          item.binary = binary;
+          if (errors.length > 0) {
+            outputData.attachment_errors = errors;
+          }
+        }
+
+        this.emit([[item]]);
+      }, handlers, (error) => {
+        // n8n reactivates the trigger, which opens a fresh socket
+        this.emitError(new NodeOperationError(this.getNode(), `Lost the Lerty WebSocket connection: ${error.message}`));
+      });
+    };
+
+    const subscriptions: LertyPooledSubscription[] = [];
+    const releaseAll = async () => {
+      for (const subscription of subscriptions.splice(0)) {
+        await subscription.release();
+      }
+    };
+
+    try {
+      const agents = await resolveAgents(this, lertyHttp);
+      if (agents.length === 0) {
+        throw new NodeOperationError(this.getNode(), 'No Lerty agents found to listen to');
+      }
+
+      // One channel per agent, all multiplexed over the shared socket
+      for (const agent of agents) {
+        subscriptions.push(await subscribeToAgent(agent));
+      }
+    } catch (error) {
+      await releaseAll();
+      throw new NodeOperationError(
+        this.getNode(),
+        `Failed to listen on Lerty WebSocket: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return {
+      closeFunction: releaseAll,
     };
   }
 
   async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+    const connectionMode = this.getNodeParameter('connectionMode', 'webhook') as string;
+
+    // Messages are delivered over the socket, ignore stray webhook calls
+    if (connectionMode === 'websocket') {
+      return {
+        webhookResponse: {
+          status: 400,
+          body: { error: 'This workflow is not configured for webhook mode' },
+        },
+      };
+    }
+
     const body = this.getBodyData() as IDataObject;
     const headers = this.getHeaderData() as IDataObject;
     const eventTypes = this.getNodeParameter('eventTypes', []) as string[];
     const additionalFields = this.getNodeParameter('additionalFields', {}) as IDataObject;
-    const agentId = this.getNodeParameter('agentId') as string;
+    const { scope, agentIds } = getAgentSelection(this);
+    const responseMode = this.getNodeParameter('responseMode', 'onReceived') as string;
+    const eventFilter = buildEventFilter(this);
 
-    // Validate secret token if provided
+    // Verify the HMAC signature of the raw body if a secret is configured
     if (additionalFields.secretToken) {
-      const receivedToken = headers['x-lerty-signature'] || headers['authorization'];
-      if (receivedToken !== additionalFields.secretToken) {
+      const rawBody = this.getRequestObject().rawBody ?? JSON.stringify(body);
+      const isValid = LertyHttp.validateWebhook(rawBody, headers['x-lerty-signature'] as string, {
+        secret: additionalFields.secretToken as string,
+        timestamp: headers['x-lerty-timestamp'] as string,
+        toleranceSeconds: (additionalFields.signatureTolerance as number) ?? 300,
+      });
+
+      if (!isValid) {
         return {
           webhookResponse: {
             status: 401,
@@ -257,29 +731,386 @@ export class LertyTrigger implements INodeType {
       };
     }
 
-    // Enrich the output with agent_id and other useful metadata
-    const outputData = {
-      ...body,
-      agent_id: agentId,
-      // Ensure conversation_id is available (handle different field names)
-      conversation_id: body.conversation_id || body.conversationId || body.thread_id,
-      // Ensure response_webhook is available if it exists
-      response_webhook: body.response_webhook || body.responseWebhook || body.callback_url,
-    };
-    
+    // With several agents the webhook URL names the agent, older registrations rely on the payload
+    const agentId = scope === 'single'
+      ? agentIds[0]
+      : (this.getQueryData() as IDataObject).agent_id as string || LertyEventNormalizer.readPayload(body).agentId;
+    if (!agentId) {
+      return {
+        webhookResponse: {
+          status: 400,
+          body: { error: 'Missing agent_id' },
+        },
+      };
+    }
+    if (scope === 'multiple' && !agentIds.includes(agentId)) {
+      return {
+        webhookResponse: {
+          status: 200,
+          body: { received: true, filtered: true },
+        },
+      };
+    }
+
+    const credentials = await this.getCredentials('lertyApi');
+    const lertyHttp = new LertyHttp({
+      baseUrl: credentials.baseUrl as string,
+      apiToken: credentials.apiToken as string,
+    });
+    const agent = await lookupAgent(this, lertyHttp, agentId);
+
+    const event = LertyEventNormalizer.normalize(body, {
+      agentId,
+      agent,
+      // Tells Reply to Conversation to output the reply instead of posting it to response_webhook
+      responseMode: responseMode !== 'onReceived' ? responseMode : undefined,
+      includeRaw: additionalFields.includeRawPayload as boolean | undefined,
+    });
+
+    // Acknowledge events the filters rule out without starting an execution
+    if (!eventFilter.matches(event)) {
+      return {
+        webhookResponse: {
+          status: 200,
+          body: { received: true, filtered: true },
+        },
+      };
+    }
+
+    // Lerty retries deliveries it did not see acknowledged, answer those without a second execution.
+    // A synchronous reply is only sent once the run succeeded, so there a retry follows a failed run
+    // and has to run again: deduplicating it would answer with an acknowledgement instead of the reply.
+    if (responseMode === 'onReceived' && await isDuplicate(buildDeduplicator(this, additionalFields), event)) {
+      return {
+        webhookResponse: {
+          status: 200,
+          body: { received: true, duplicate: true },
+        },
+      };
+    }
+
+    const outputData = this.getNode().typeVersion >= 2
+      ? event
+      : buildLegacyWebhookOutput(body, agentId, agent, responseMode);
+
     // Log what we're outputting for debugging
     console.log('LertyTrigger output:', JSON.stringify(outputData, null, 2));
 
+    const item: INodeExecutionData = {
+      json: outputData,
+      headers,
+    };
+
+    if (additionalFields.downloadAttachments) {
+      const { binary, errors } = await downloadAttachments(this, lertyHttp, outputData);
+      item.binary = binary;
+      if (errors.length > 0) {
+        outputData.attachment_errors = errors;
+      }
+    }
+
     // Return the data to the workflow
     return {
-      workflowData: [
-        [
-          {
-            json: outputData,
-            headers,
-          },
-        ],
-      ],
+      workflowData: [[item]],
     };
   }
-}
\ No newline at end of file
+}
+
+function buildEventFilter(context: IHookFunctions | IWebhookFunctions | ITriggerFunctions): LertyEventFilter {
+  const filters = context.getNodeParameter('filters', {}) as IDataObject;
+  try {
+    return LertyEventFilter.fromParameters(filters);
+  } catch (error) {
+    throw new NodeOperationError(
+      context.getNode(),
+      `Invalid content filter: ${error instanceof Error ? error.message : String(error)}`,
+      { description: 'Check the regular expression in Filters → Content Matches Regex' },
+    );
+  }
+}
+
+function buildDeduplicator(
+  context: IWebhookFunctions | ITriggerFunctions,
+  additionalFields: IDataObject,
+): LertyDeduplicator | undefined {
+  const window = (additionalFields.deduplicationWindow as number) ?? 600;
+  if (window <= 0) {
+    return undefined;
+  }
+
+  const store = additionalFields.deduplicationStore === 'memory'
+    ? new LertyMemoryStore(`${context.getWorkflow().id}:${context.getNode().id}`)
+    : new LertyStaticDataStore(context.getWorkflowStaticData('node'));
+
+  return new LertyDeduplicator({ store, window: window * 1000 });
+}
+
+async function isDuplicate(deduplicator: LertyDeduplicator | undefined, event: LertyTriggerEvent): Promise<boolean> {
+  const messageId = LertyDeduplicator.getMessageId(event);
+  if (!deduplicator || !messageId) {
+    return false;
+  }
+  return deduplicator.isDuplicate(messageId);
+}
+
+// With several agents the URL names the agent, so events tell which agent they are for
+function buildWebhookRegistration(context: IHookFunctions, agentId?: string): LertyWebhookRegistration {
+  const additionalFields = context.getNodeParameter('additionalFields', {}) as IDataObject;
+  const webhookUrl = context.getNodeWebhookUrl('default') as string;
+  const { scope } = getAgentSelection(context);
+
+  return {
+    url: scope !== 'single' && agentId ? buildAgentWebhookUrl(webhookUrl, agentId) : webhookUrl,
+    event_types: context.getNodeParameter('eventTypes', []) as string[],
+    secret: (additionalFields.secretToken as string) || undefined,
+  };
+}
+
+// Several agents share the trigger URL, the query tells their deliveries apart
+function buildAgentWebhookUrl(webhookUrl: string, agentId: string): string {
+  return `${webhookUrl}?agent_id=${encodeURIComponent(agentId)}`;
+}
+
+// Removes the agent's webhook only while it still points at this trigger, another
+// workflow may have set up its own webhook for the agent in the meantime
+async function deleteOwnWebhook(context: IHookFunctions, lertyHttp: LertyHttp, agentId: string): Promise<void> {
+  const webhook = await lertyHttp.getWebhook(agentId);
+  const webhookUrl = context.getNodeWebhookUrl('default') as string;
+
+  if (webhook && [webhookUrl, buildAgentWebhookUrl(webhookUrl, agentId)].includes(webhook.url)) {
+    await lertyHttp.deleteWebhook(agentId);
+  }
+}
+
+// Agents whose webhook points at this trigger; `agentId` was stored before several agents were supported
+function getRegisteredAgentIds(webhookData: IDataObject): string[] {
+  if (Array.isArray(webhookData.agentIds)) {
+    return webhookData.agentIds as string[];
+  }
+  return webhookData.agentId ? [webhookData.agentId as string] : [];
+}
+
+// Whether a set up webhook delivers what the node is configured for. Lerty
+// may not return the secret, then it is compared with the one stored on setup.
+function webhookMatches(
+  webhook: LertyWebhook,
+  registration: LertyWebhookRegistration,
+  secretFingerprint: string | undefined,
+): boolean {
+  const eventTypes = new Set(webhook.eventTypes);
+  const sameEventTypes = eventTypes.size === new Set(registration.event_types).size &&
+    registration.event_types.every((eventType) => eventTypes.has(eventType));
+  const sameSecret = webhook.secret !== undefined
+    ? webhook.secret === (registration.secret ?? '')
+    : secretFingerprint !== undefined && secretFingerprint === fingerprintSecret(registration.secret);
+
+  return webhook.url === registration.url && sameEventTypes && sameSecret;
+}
+
+// Static data is stored with the workflow, so keep a hash of the secret rather than the secret
+function fingerprintSecret(secret: string | undefined): string {
+  return createHash('sha256').update(secret ?? '').digest('hex');
+}
+
+function getAgentSelection(
+  context: IHookFunctions | IWebhookFunctions | ITriggerFunctions,
+): { scope: LertyAgentScope; agentIds: string[] } {
+  const scope = context.getNodeParameter('agentScope', 'single') as LertyAgentScope;
+
+  if (scope === 'single') {
+    return { scope, agentIds: [context.getNodeParameter('agentId') as string] };
+  }
+  if (scope === 'multiple') {
+    return { scope, agentIds: context.getNodeParameter('agentIds', []) as string[] };
+  }
+  return { scope, agentIds: [] };
+}
+
+async function resolveAgents(context: ITriggerFunctions, lertyHttp: LertyHttp): Promise<LertyAgent[]> {
+  const { scope, agentIds } = getAgentSelection(context);
+
+  if (scope === 'all') {
+    return lertyHttp.getAgents();
+  }
+  return Promise.all(agentIds.map((agentId) => lertyHttp.getAgent(agentId)));
+}
+
+// Webhooks only need the IDs, so agents are only listed for the whole organization
+async function resolveAgentIds(context: IHookFunctions, lertyHttp: LertyHttp): Promise<string[]> {
+  const { scope, agentIds } = getAgentSelection(context);
+
+  if (scope === 'all') {
+    return (await lertyHttp.getAgents()).map((agent) => agent.id);
+  }
+  return agentIds;
+}
+
+// Agents of each credential, so webhook calls do not look the agent up every time
+const agentCache: Map<string, { agents: Promise<LertyAgent[]>; expiresAt: number }> = new Map();
+const AGENT_CACHE_TTL = 5 * 60 * 1000;
+const AGENT_CACHE_MAX_ENTRIES = 100;
+
+async function lookupAgent(
+  context: IWebhookFunctions,
+  lertyHttp: LertyHttp,
+  agentId: string,
+): Promise<LertyAgent | undefined> {
+  const { baseUrl, apiToken } = lertyHttp.getConfig();
+  const key = LertyConnectionManager.buildKey(baseUrl, apiToken);
+  const now = Date.now();
+
+  let cached = agentCache.get(key);
+  if (!cached || cached.expiresAt <= now) {
+    pruneAgentCache(now);
+    cached = { agents: lertyHttp.getAgents(), expiresAt: now + AGENT_CACHE_TTL };
+    agentCache.set(key, cached);
+  }
+
+  try {
+    const agent = (await cached.agents).find((candidate) => candidate.id === agentId);
+    if (!agent) {
+      // Probably created after the list was cached
+      agentCache.delete(key);
+    }
+    return agent;
+  } catch (error) {
+    agentCache.delete(key);
+    context.logger.warn(`LertyTrigger: Failed to look up agent ${agentId}: ${error}`);
+    return undefined;
+  }
+}
+
+// Drops expired credentials, then the oldest ones while the cache is full
+function pruneAgentCache(now: number): void {
+  for (const [key, cached] of agentCache) {
+    if (cached.expiresAt <= now) {
+      agentCache.delete(key);
+    }
+  }
+  for (const key of agentCache.keys()) {
+    if (agentCache.size < AGENT_CACHE_MAX_ENTRIES) {
+      break;
+    }
+    agentCache.delete(key);
+  }
+}
+
+function buildAgentFields(agentId: string, agent?: LertyAgent): IDataObject {
+  return {
+    agent_id: agentId,
+    agent_name: agent?.name,
+    tenant_id: agent?.tenantId,
+    organization_id: agent?.organizationId,
+  };
+}
+
+// Version 1 output: the raw payload with a few fields patched in
+function buildLegacyWebhookOutput(
+  body: IDataObject,
+  agentId: string,
+  agent: LertyAgent | undefined,
+  responseMode: string,
+): IDataObject {
+  const outputData: IDataObject = {
+    ...body,
+    ...buildAgentFields(agentId, agent),
+    // The sender's organization wins over the agent's
+    organization_id: body.organization_id || agent?.organizationId,
+    // Ensure conversation_id is available (handle different field names)
+    conversation_id: body.conversation_id || body.conversationId || body.thread_id,
+    // Ensure response_webhook is available if it exists
+    response_webhook: body.response_webhook || body.responseWebhook || body.callback_url,
+    // Always expose an attachments array, including legacy single-file payloads
+    attachments: FileUtils.normalizeAttachments(body),
+  };
+
+  // Tells Reply to Conversation to output the reply instead of posting it to response_webhook
+  if (responseMode !== 'onReceived') {
+    outputData.response_mode = responseMode;
+  }
+  return outputData;
+}
+
+function buildChunkOutput(chunk: LertyResponseChunk, agent: LertyAgent): IDataObject {
+  return {
+    type: 'agent_response_chunk',
+    message_id: chunk.messageId,
+    conversation_id: chunk.conversationId,
+    index: chunk.index,
+    delta: chunk.delta,
+    ...buildAgentFields(agent.id, agent),
+  };
+}
+
+// Shape socket messages like webhook payloads so downstream nodes see the same fields
+function buildWebSocketOutput(message: LertyMessage, agent: LertyAgent): IDataObject {
+  return {
+    id: message.id,
+    type: message.type,
+    content: message.content,
+    conversation_id: message.conversationId,
+    user_id: message.userId,
+    ...buildAgentFields(agent.id, agent),
+    timestamp: message.timestamp,
+    metadata: message.metadata,
+    attachments: message.attachments,
+    file_url: message.fileUrl,
+    file_name: message.fileName,
+    file_type: message.fileType,
+  };
+}
+
+// Downloads each attachment of a message into attachment_<index> binary properties.
+// Files that fail validation or download are skipped and reported instead of failing the trigger.
+async function downloadAttachments(
+  context: IWebhookFunctions | ITriggerFunctions,
+  lertyHttp: LertyHttp,
+  data: IDataObject,
+): Promise<{ binary: IBinaryKeyData; errors: IDataObject[] }> {
+  const binary: IBinaryKeyData = {};
+  const errors: IDataObject[] = [];
+
+  const attachments = FileUtils.normalizeAttachments(data);
+
+  for (let index = 0; index < attachments.length; index++) {
+    const { url, presigned_url: presignedUrl, filename: fileName, mime_type: mimeType, size } = attachments[index];
+
+    const reportError = (error: unknown) => {
+      context.logger.warn(`LertyTrigger: Failed to download attachment ${url}: ${error}`);
+      errors.push({
+        index,
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    };
+
+    try {
+      if (!FileUtils.validateFileType(mimeType)) {
+        reportError(`Unsupported file type ${mimeType}`);
+        continue;
+      }
+
+      if (size !== undefined && !FileUtils.validateFileSize(size)) {
+        reportError(`File is too large (${FileUtils.formatFileSize(size)})`);
+        continue;
+      }
+
+      // The presigned URL is readable without the API token
+      const buffer = await lertyHttp.downloadFile(presignedUrl || url, {
+        maxSize: FileUtils.MAX_FILE_SIZE,
+        expectedSize: size,
+      });
+
+      if (!(await FileUtils.validateFileContent(buffer, mimeType))) {
+        reportError(`Content does not match file type ${mimeType}`);
+        continue;
+      }
+
+      binary[`attachment_${index}`] = await context.helpers.prepareBinaryData(buffer, fileName, mimeType);
+    } catch (error) {
+      reportError(error);
+    }
+  }
+
+  return { binary, errors };
+}
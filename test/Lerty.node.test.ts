@@ -0,0 +1,202 @@
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Lerty } from '../nodes/Lerty/Lerty.node';
+import { LertyHttp } from '../utils/LertyHttp';
+import { LertyTransport } from '../utils/LertyTransport';
+
+function createContext(parameters: IDataObject, typeVersion = 1, items: IDataObject[] = [{}]): IExecuteFunctions {
+  return {
+    getInputData: () => items.map((json) => ({ json })),
+    getCredentials: async () => ({ baseUrl: 'https://lerty.test', apiToken: 'token' }),
+    getNodeParameter: (name: string, _itemIndex: number, fallback?: unknown) => parameters[name] ?? fallback,
+    getNode: () => ({ id: 'node_1', name: 'Lerty', type: 'n8n-nodes-lerty.lerty', typeVersion, position: [0, 0], parameters }),
+    continueOnFail: () => false,
+    helpers: { httpRequest: jest.fn().mockResolvedValue({ success: true }) },
+  } as unknown as IExecuteFunctions;
+}
+
+function messagesPage(ids: string[], nextCursor?: string): Response {
+  const messages = ids.map((id) => ({ id, type: 'user_message', content: id }));
+  return new Response(JSON.stringify({ messages, nextCursor }), { headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('Lerty Get Messages pagination', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const requestedUrl = (call: number) => new URL(fetchMock.mock.calls[call][0] as string);
+
+  async function getMessages(parameters: IDataObject): Promise<string[]> {
+    const [items] = await new Lerty().execute.call(
+      createContext({ resource: 'conversation', operation: 'getMessages', conversationId: 'conv_1', ...parameters }),
+    );
+    return items.map((item) => item.json.id as string);
+  }
+
+  it('follows the cursor to the last page with Return All', async () => {
+    fetchMock
+      .mockResolvedValueOnce(messagesPage(['msg_1', 'msg_2'], 'cursor_2'))
+      .mockResolvedValueOnce(messagesPage(['msg_3']));
+
+    expect(await getMessages({ returnAll: true })).toEqual(['msg_1', 'msg_2', 'msg_3']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestedUrl(0).searchParams.get('cursor')).toBeNull();
+    expect(requestedUrl(1).searchParams.get('cursor')).toBe('cursor_2');
+  });
+
+  it('requests pages of at most 100 entries', async () => {
+    fetchMock.mockResolvedValueOnce(messagesPage(['msg_1']));
+
+    await getMessages({ returnAll: true });
+    expect(requestedUrl(0).searchParams.get('limit')).toBe('100');
+  });
+
+  it('stops at the limit and only asks for the entries still missing', async () => {
+    fetchMock
+      .mockResolvedValueOnce(messagesPage(['msg_1', 'msg_2'], 'cursor_2'))
+      .mockResolvedValueOnce(messagesPage(['msg_3'], 'cursor_3'));
+
+    expect(await getMessages({ returnAll: false, limit: 3 })).toEqual(['msg_1', 'msg_2', 'msg_3']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestedUrl(0).searchParams.get('limit')).toBe('3');
+    expect(requestedUrl(1).searchParams.get('limit')).toBe('1');
+  });
+
+  it('cuts a page that returns more entries than asked for', async () => {
+    fetchMock.mockResolvedValueOnce(messagesPage(['msg_1', 'msg_2', 'msg_3'], 'cursor_2'));
+
+    expect(await getMessages({ returnAll: false, limit: 2 })).toEqual(['msg_1', 'msg_2']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Lerty transport per node version', () => {
+  const typing = { resource: 'message', operation: 'sendTypingIndicator', agentId: 'agent_1', conversationId: 'conv_1', typing: true };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps version 1 nodes on HTTP when no transport is set', async () => {
+    const deliver = jest.spyOn(LertyTransport.prototype, 'deliver');
+    const sendTypingIndicator = jest.spyOn(LertyHttp.prototype, 'sendTypingIndicator').mockResolvedValue({ success: true });
+
+    const [items] = await new Lerty().execute.call(createContext(typing, 1));
+
+    expect(deliver).not.toHaveBeenCalled();
+    expect(sendTypingIndicator).toHaveBeenCalledWith('agent_1', 'conv_1', true);
+    expect(items[0].json.transport).toBe('http');
+  });
+
+  it('lets version 1 nodes opt in to the WebSocket transport', async () => {
+    const deliver = jest.spyOn(LertyTransport.prototype, 'deliver').mockResolvedValue({ transport: 'websocket' });
+
+    await new Lerty().execute.call(createContext({ ...typing, additionalFields: { transport: 'auto' } }, 1));
+
+    expect(deliver).toHaveBeenCalled();
+  });
+
+  it('uses the WebSocket transport by default from version 2', async () => {
+    const deliver = jest.spyOn(LertyTransport.prototype, 'deliver').mockResolvedValue({ transport: 'websocket' });
+
+    const [items] = await new Lerty().execute.call(createContext(typing, 2));
+
+    expect(deliver).toHaveBeenCalledWith(expect.any(LertyHttp), expect.objectContaining({ event: 'typing' }), expect.any(Function));
+    expect(items[0].json.transport).toBe('websocket');
+  });
+});
+
+describe('Lerty streamed replies', () => {
+  const stream = { resource: 'message', agentId: 'agent_1', conversationId: 'conv_1' };
+
+  let deliver: jest.SpyInstance;
+
+  beforeEach(() => {
+    deliver = jest.spyOn(LertyTransport.prototype, 'deliver').mockResolvedValue({ transport: 'websocket' });
+    // Replies log their parameters for debugging
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const pushed = (call: number) => deliver.mock.calls[call][1];
+
+  it('begins a reply and outputs the message ID and the next chunk index', async () => {
+    const trigger = { conversation_id: 'conv_1', response_webhook: 'https://lerty.test/reply' };
+
+    const [items] = await new Lerty().execute.call(createContext({ ...stream, operation: 'beginStream' }, 2, [trigger]));
+
+    expect(pushed(0)).toMatchObject({
+      agentId: 'agent_1',
+      event: 'agent_response_start',
+      payload: { type: 'agent_response_start', conversation_id: 'conv_1' },
+    });
+    expect(pushed(0).messageId).toBe(`${items[0].json.message_id}:start`);
+    expect(items[0].json).toMatchObject({ next_index: 0, transport: 'websocket', _originalTriggerData: trigger });
+  });
+
+  it('appends each item as the next chunk of the reply', async () => {
+    const [items] = await new Lerty().execute.call(createContext(
+      { ...stream, operation: 'appendToStream', streamMessageId: 'msg_1', chunk: 'Hel' },
+      2,
+      [{ message_id: 'msg_1', next_index: 3 }],
+    ));
+
+    expect(pushed(0)).toMatchObject({
+      event: 'agent_response_chunk',
+      payload: { message_id: 'msg_1', index: 3, delta: 'Hel' },
+      messageId: 'msg_1:3',
+    });
+    expect(items[0].json.next_index).toBe(4);
+  });
+
+  it('numbers the chunks by item without a next_index', async () => {
+    await new Lerty().execute.call(createContext(
+      { ...stream, operation: 'appendToStream', streamMessageId: 'msg_1', chunk: 'Hel' },
+      2,
+      [{}, {}],
+    ));
+
+    expect([pushed(0).payload.index, pushed(1).payload.index]).toEqual([0, 1]);
+  });
+
+  it('finalizes the reply with the message ID of the stream', async () => {
+    await new Lerty().execute.call(createContext(
+      { ...stream, operation: 'finalizeStream', streamMessageId: 'msg_1', message: 'Hello' },
+      2,
+      [{ response_webhook: 'https://lerty.test/reply' }],
+    ));
+
+    expect(pushed(0)).toMatchObject({
+      event: 'agent_response',
+      payload: { message_id: 'msg_1', content: 'Hello' },
+      messageId: 'msg_1',
+    });
+  });
+
+  it('posts chunks to the response webhook over HTTP', async () => {
+    const context = createContext(
+      { ...stream, operation: 'appendToStream', streamMessageId: 'msg_1', chunk: 'Hel', additionalFields: { transport: 'http' } },
+      2,
+      [{ response_webhook: 'https://lerty.test/reply' }],
+    );
+
+    const [items] = await new Lerty().execute.call(context);
+
+    expect(context.helpers.httpRequest).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://lerty.test/reply',
+      headers: expect.objectContaining({ 'Idempotency-Key': 'msg_1:0' }),
+      body: expect.objectContaining({ type: 'agent_response_chunk', delta: 'Hel' }),
+    }));
+    expect(items[0].json).toMatchObject({ transport: 'http', message_id: 'msg_1' });
+  });
+});
+
@@ -0,0 +1,157 @@
+import { LertyConnectionManager } from '../utils/LertyConnectionManager';
+import { LertyMessage, LertyWebSocket } from '../utils/LertyWebSocket';
+
+jest.mock('../utils/LertyWebSocket', () => ({ LertyWebSocket: jest.fn() }));
+
+const MockWebSocket = LertyWebSocket as unknown as jest.Mock;
+
+interface MockSocket {
+  connect: jest.Mock;
+  subscribe: jest.Mock;
+  unsubscribe: jest.Mock;
+  disconnect: jest.Mock;
+  on: jest.Mock;
+  // Message callback of each joined topic
+  topics: Map<string, (message: LertyMessage) => void>;
+}
+
+let sockets: MockSocket[];
+
+function createSocket(): MockSocket {
+  const socket: MockSocket = {
+    connect: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn(async (topic: string, callback: (message: LertyMessage) => void) => {
+      socket.topics.set(topic, callback);
+    }),
+    unsubscribe: jest.fn(async (topic: string) => {
+      socket.topics.delete(topic);
+    }),
+    disconnect: jest.fn().mockResolvedValue(undefined),
+    on: jest.fn(() => jest.fn()),
+    topics: new Map(),
+  };
+  sockets.push(socket);
+  return socket;
+}
+
+const config = { wsUrl: 'wss://lerty.test/socket', apiToken: 'token' };
+const message = { id: 'msg_1', content: 'Hi' } as LertyMessage;
+
+describe('LertyConnectionManager', () => {
+  let pool: LertyConnectionManager;
+
+  beforeEach(() => {
+    sockets = [];
+    MockWebSocket.mockReset();
+    MockWebSocket.mockImplementation(createSocket);
+    pool = new LertyConnectionManager();
+  });
+
+  it('shares one socket per credential', async () => {
+    await pool.subscribe(config, 'topic_1', jest.fn());
+    await pool.subscribe(config, 'topic_2', jest.fn());
+    await pool.subscribe({ ...config, apiToken: 'other' }, 'topic_1', jest.fn());
+
+    expect(sockets).toHaveLength(2);
+    expect(sockets[0].connect).toHaveBeenCalledTimes(1);
+    expect(pool.getConnectionCount()).toBe(2);
+  });
+
+  it('keeps the API token out of the pool key', () => {
+    expect(LertyConnectionManager.buildKey('wss://lerty.test/socket', 'secret_token')).not.toContain('secret_token');
+  });
+
+  it('joins a topic once and passes its messages to every subscriber', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    await pool.subscribe(config, 'topic_1', first);
+    await pool.subscribe(config, 'topic_1', second);
+
+    sockets[0].topics.get('topic_1')!(message);
+
+    expect(sockets[0].subscribe).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(message);
+    expect(second).toHaveBeenCalledWith(message);
+  });
+
+  it('leaves a topic when its last subscriber releases it', async () => {
+    const first = await pool.subscribe(config, 'topic_1', jest.fn());
+    const second = await pool.subscribe(config, 'topic_1', jest.fn());
+    await pool.subscribe(config, 'topic_2', jest.fn());
+
+    await first.release();
+    expect(sockets[0].unsubscribe).not.toHaveBeenCalled();
+
+    await second.release();
+    expect(sockets[0].unsubscribe).toHaveBeenCalledWith('topic_1');
+    expect(sockets[0].disconnect).not.toHaveBeenCalled();
+  });
+
+  it('closes the socket once no topic is left, and opens a new one for the next subscriber', async () => {
+    const subscription = await pool.subscribe(config, 'topic_1', jest.fn());
+
+    await subscription.release();
+    await subscription.release();
+    expect(sockets[0].disconnect).toHaveBeenCalledTimes(1);
+    expect(pool.getConnectionCount()).toBe(0);
+
+    await pool.subscribe(config, 'topic_1', jest.fn());
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('registers typed handlers per subscriber and removes them on release', async () => {
+    const removeHandler = jest.fn();
+    MockWebSocket.mockImplementation(() => {
+      const socket = createSocket();
+      socket.on.mockReturnValue(removeHandler);
+      return socket;
+    });
+    const typing = jest.fn();
+    await pool.subscribe(config, 'topic_1', jest.fn());
+    const subscription = await pool.subscribe(config, 'topic_1', jest.fn(), { typing });
+
+    expect(sockets[0].on).toHaveBeenCalledWith('topic_1', 'typing', typing);
+
+    await subscription.release();
+    expect(removeHandler).toHaveBeenCalled();
+  });
+
+  it('drops the subscriber when the join fails', async () => {
+    MockWebSocket.mockImplementation(() => {
+      const socket = createSocket();
+      socket.subscribe.mockRejectedValue(new Error('join refused'));
+      return socket;
+    });
+
+    await expect(pool.subscribe(config, 'topic_1', jest.fn())).rejects.toThrow('join refused');
+    expect(sockets[0].disconnect).toHaveBeenCalled();
+    expect(pool.getConnectionCount()).toBe(0);
+  });
+
+  it('evicts a socket that fails to connect, so the next subscriber starts a new one', async () => {
+    MockWebSocket.mockImplementationOnce(() => {
+      const socket = createSocket();
+      socket.connect.mockRejectedValue(new Error('connect failed'));
+      return socket;
+    });
+
+    await expect(pool.subscribe(config, 'topic_1', jest.fn())).rejects.toThrow('connect failed');
+    expect(pool.getConnectionCount()).toBe(0);
+
+    await pool.subscribe(config, 'topic_1', jest.fn());
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('evicts a socket that gave up reconnecting and tells its subscribers', async () => {
+    const onError = jest.fn();
+    await pool.subscribe(config, 'topic_1', jest.fn(), {}, onError);
+
+    const { onGiveUp } = MockWebSocket.mock.calls[0][0];
+    const error = new Error('gave up reconnecting');
+    onGiveUp(error);
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(sockets[0].disconnect).toHaveBeenCalled();
+    expect(pool.getConnectionCount()).toBe(0);
+  });
+});
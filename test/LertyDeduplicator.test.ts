@@ -0,0 +1,109 @@
+import { IDataObject } from 'n8n-workflow';
+import {
+  LertyDeduplicator,
+  LertyMemoryStore,
+  LertySeenMessages,
+  LertyStaticDataStore,
+} from '../utils/LertyDeduplicator';
+import { LertyEventNormalizer } from '../utils/LertyEventNormalizer';
+
+const WINDOW = 10 * 60 * 1000;
+
+describe('LertyDeduplicator', () => {
+  it('lets the first delivery through and drops redeliveries within the window', async () => {
+    const deduplicator = new LertyDeduplicator({ store: new LertyStaticDataStore({}), window: WINDOW });
+
+    expect(await deduplicator.isDuplicate('msg_1', 1000)).toBe(false);
+    expect(await deduplicator.isDuplicate('msg_1', 2000)).toBe(true);
+    expect(await deduplicator.isDuplicate('msg_1', 3000)).toBe(true);
+    expect(await deduplicator.isDuplicate('msg_2', 3000)).toBe(false);
+  });
+
+  it('lets a message through again once the window has passed', async () => {
+    const deduplicator = new LertyDeduplicator({ store: new LertyStaticDataStore({}), window: WINDOW });
+
+    await deduplicator.isDuplicate('msg_1', 0);
+    expect(await deduplicator.isDuplicate('msg_1', WINDOW + 1)).toBe(false);
+  });
+
+  it('does not extend the window for constant redeliveries', async () => {
+    const deduplicator = new LertyDeduplicator({ store: new LertyStaticDataStore({}), window: WINDOW });
+
+    await deduplicator.isDuplicate('msg_1', 0);
+    expect(await deduplicator.isDuplicate('msg_1', WINDOW - 1)).toBe(true);
+    expect(await deduplicator.isDuplicate('msg_1', WINDOW + 1)).toBe(false);
+  });
+
+  it('remembers seen IDs in the static data, so they survive a new deduplicator', async () => {
+    const staticData: IDataObject = {};
+
+    await new LertyDeduplicator({ store: new LertyStaticDataStore(staticData), window: WINDOW }).isDuplicate('msg_1', 0);
+
+    expect(staticData.seenMessageIds).toEqual({ msg_1: WINDOW });
+    const restarted = new LertyDeduplicator({ store: new LertyStaticDataStore(staticData), window: WINDOW });
+    expect(await restarted.isDuplicate('msg_1', 1000)).toBe(true);
+  });
+
+  it('shares seen IDs between memory stores with the same key only', async () => {
+    const first = new LertyDeduplicator({ store: new LertyMemoryStore('workflow_1:node_1'), window: WINDOW });
+    const second = new LertyDeduplicator({ store: new LertyMemoryStore('workflow_1:node_1'), window: WINDOW });
+    const other = new LertyDeduplicator({ store: new LertyMemoryStore('workflow_2:node_1'), window: WINDOW });
+
+    expect(await first.isDuplicate('msg_1', 0)).toBe(false);
+    expect(await second.isDuplicate('msg_1', 1)).toBe(true);
+    expect(await other.isDuplicate('msg_1', 2)).toBe(false);
+  });
+
+  it('prunes expired IDs and keeps at most maxEntries', async () => {
+    let saved: LertySeenMessages = {};
+    const store = {
+      load: async () => ({ ...saved }),
+      save: async (seen: LertySeenMessages) => {
+        saved = seen;
+      },
+    };
+    const deduplicator = new LertyDeduplicator({ store, window: 100, maxEntries: 2 });
+
+    await deduplicator.isDuplicate('msg_1', 0);
+    await deduplicator.isDuplicate('msg_2', 10);
+    await deduplicator.isDuplicate('msg_3', 20);
+    expect(Object.keys(saved)).toEqual(['msg_2', 'msg_3']);
+
+    await deduplicator.isDuplicate('msg_4', 115);
+    expect(Object.keys(saved)).toEqual(['msg_3', 'msg_4']);
+
+    await deduplicator.isDuplicate('msg_5', 500);
+    expect(Object.keys(saved)).toEqual(['msg_5']);
+  });
+
+  describe('getMessageId', () => {
+    const normalize = (payload: IDataObject) => LertyEventNormalizer.normalize(payload, { agentId: 'agent_1' });
+
+    it('uses the message ID from any of its field names', () => {
+      expect(LertyDeduplicator.getMessageId(normalize({ id: 'msg_1' }))).toBe('msg_1');
+      expect(LertyDeduplicator.getMessageId(normalize({ message_id: 'msg_1' }))).toBe('msg_1');
+      expect(LertyDeduplicator.getMessageId(normalize({ messageId: 'msg_1' }))).toBe('msg_1');
+    });
+
+    it('tells the chunks of a streamed response apart', () => {
+      const first = normalize({ type: 'agent_response_chunk', message_id: 'msg_1', index: 0 });
+      const second = normalize({ type: 'agent_response_chunk', message_id: 'msg_1', index: 1 });
+
+      expect(LertyDeduplicator.getMessageId(first)).toBe('msg_1:0');
+      expect(LertyDeduplicator.getMessageId(second)).toBe('msg_1:1');
+    });
+
+    it('recognizes a redelivery sent with other field names', async () => {
+      const deduplicator = new LertyDeduplicator({ store: new LertyStaticDataStore({}), window: WINDOW });
+      const delivery = normalize({ message_id: 'msg_1', conversation_id: 'conv_1', content: 'Hi' });
+      const redelivery = normalize({ id: 'msg_1', conversationId: 'conv_1', content: 'Hi' });
+
+      expect(await deduplicator.isDuplicate(LertyDeduplicator.getMessageId(delivery)!, 0)).toBe(false);
+      expect(await deduplicator.isDuplicate(LertyDeduplicator.getMessageId(redelivery)!, 1000)).toBe(true);
+    });
+
+    it('has no ID for messages without one', () => {
+      expect(LertyDeduplicator.getMessageId(normalize({ content: 'Hi' }))).toBeUndefined();
+    });
+  });
+});
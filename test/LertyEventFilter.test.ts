@@ -0,0 +1,100 @@
+import { IDataObject } from 'n8n-workflow';
+import { LertyEventFilter } from '../utils/LertyEventFilter';
+import { LertyEventNormalizer, LertyTriggerEvent } from '../utils/LertyEventNormalizer';
+
+function createEvent(payload: IDataObject = {}): LertyTriggerEvent {
+  return LertyEventNormalizer.normalize(
+    {
+      id: 'msg_1',
+      type: 'user_message',
+      content: 'I need a refund for order 42',
+      conversation_id: 'conv_1',
+      user_id: 'user_1',
+      metadata: { source: 'web', page: { section: 'billing' } },
+      ...payload,
+    },
+    { agentId: 'agent_1' },
+  );
+}
+
+describe('LertyEventFilter', () => {
+  it('matches every event without conditions', () => {
+    const filter = new LertyEventFilter({});
+
+    expect(filter.getConditionCount()).toBe(0);
+    expect(filter.matches(createEvent())).toBe(true);
+  });
+
+  it('matches user and conversation IDs', () => {
+    expect(new LertyEventFilter({ userIds: ['user_1', 'user_2'] }).matches(createEvent())).toBe(true);
+    expect(new LertyEventFilter({ userIds: ['user_2'] }).matches(createEvent())).toBe(false);
+    expect(new LertyEventFilter({ userIds: ['user_1'] }).matches(createEvent({ user_id: undefined }))).toBe(false);
+    expect(new LertyEventFilter({ conversationIds: ['conv_1'] }).matches(createEvent())).toBe(true);
+    expect(new LertyEventFilter({ conversationIds: ['conv_2'] }).matches(createEvent())).toBe(false);
+  });
+
+  it('matches metadata values, including nested paths', () => {
+    expect(new LertyEventFilter({ metadata: [{ key: 'source', value: 'web' }] }).matches(createEvent())).toBe(true);
+    expect(new LertyEventFilter({ metadata: [{ key: 'page.section', value: 'billing' }] }).matches(createEvent()))
+      .toBe(true);
+    expect(new LertyEventFilter({ metadata: [{ key: 'source', value: 'mobile' }] }).matches(createEvent())).toBe(false);
+    expect(new LertyEventFilter({ metadata: [{ key: 'source.name', value: 'web' }] }).matches(createEvent()))
+      .toBe(false);
+  });
+
+  it('compares metadata values as strings', () => {
+    const event = createEvent({ metadata: { priority: 2, vip: true } });
+
+    expect(new LertyEventFilter({ metadata: [{ key: 'priority', value: '2' }] }).matches(event)).toBe(true);
+    expect(new LertyEventFilter({ metadata: [{ key: 'vip', value: 'true' }] }).matches(event)).toBe(true);
+  });
+
+  it('matches the content against a regex', () => {
+    expect(new LertyEventFilter({ contentRegex: 'refund|return' }).matches(createEvent())).toBe(true);
+    expect(new LertyEventFilter({ contentRegex: '^order' }).matches(createEvent())).toBe(false);
+  });
+
+  it('throws for an invalid regex', () => {
+    expect(() => new LertyEventFilter({ contentRegex: '(' })).toThrow(SyntaxError);
+  });
+
+  it('matches whether the message has attachments', () => {
+    const withAttachment = createEvent({
+      attachments: [{ url: 'https://files.lerty.test/a.pdf', filename: 'a.pdf', mime_type: 'application/pdf' }],
+    });
+
+    expect(new LertyEventFilter({ hasAttachments: true }).matches(withAttachment)).toBe(true);
+    expect(new LertyEventFilter({ hasAttachments: true }).matches(createEvent())).toBe(false);
+    expect(new LertyEventFilter({ hasAttachments: false }).matches(createEvent())).toBe(true);
+  });
+
+  it('requires all conditions with AND and one with OR', () => {
+    const config = { userIds: ['user_1'], conversationIds: ['conv_2'] };
+
+    expect(new LertyEventFilter(config).matches(createEvent())).toBe(false);
+    expect(new LertyEventFilter({ ...config, combine: 'or' }).matches(createEvent())).toBe(true);
+    expect(new LertyEventFilter({ userIds: ['user_2'], conversationIds: ['conv_2'], combine: 'or' })
+      .matches(createEvent())).toBe(false);
+  });
+
+  describe('fromParameters', () => {
+    it('reads the trigger\'s Filters collection', () => {
+      const filter = LertyEventFilter.fromParameters({
+        combine: 'and',
+        userIds: ' user_1, ,user_2 ',
+        conversationIds: '',
+        metadata: { conditions: [{ key: 'source', value: 'web' }, { key: '', value: 'ignored' }] },
+        contentRegex: 'refund',
+        hasAttachments: 'no',
+      });
+
+      expect(filter.getConditionCount()).toBe(4);
+      expect(filter.matches(createEvent())).toBe(true);
+      expect(filter.matches(createEvent({ user_id: 'user_3' }))).toBe(false);
+    });
+
+    it('adds no conditions for filters that are not set', () => {
+      expect(LertyEventFilter.fromParameters({}).getConditionCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { LertyAgent } from '../utils/LertyHttp';
+import { LERTY_EVENT_SCHEMA_VERSION, LertyEventNormalizer } from '../utils/LertyEventNormalizer';
+
+const agent: LertyAgent = {
+  id: 'agent_1',
+  name: 'Support',
+  status: 'active',
+  tenantId: 'tenant_1',
+  organizationId: 'org_1',
+};
+
+describe('LertyEventNormalizer', () => {
+  describe('readPayload', () => {
+    it('reads the snake_case field names', () => {
+      const fields = LertyEventNormalizer.readPayload({
+        message_id: 'msg_1',
+        conversation_id: 'conv_1',
+        user_id: 'user_1',
+        organization_id: 'org_2',
+        agent_id: 'agent_1',
+        response_webhook: 'https://lerty.test/reply',
+      });
+
+      expect(fields).toMatchObject({
+        id: 'msg_1',
+        conversationId: 'conv_1',
+        userId: 'user_1',
+        organizationId: 'org_2',
+        agentId: 'agent_1',
+        responseWebhook: 'https://lerty.test/reply',
+      });
+    });
+
+    it('reads the camelCase and legacy field names', () => {
+      const fields = LertyEventNormalizer.readPayload({
+        messageId: 'msg_1',
+        thread_id: 'conv_1',
+        userId: 'user_1',
+        callback_url: 'https://lerty.test/reply',
+      });
+
+      expect(fields).toMatchObject({
+        id: 'msg_1',
+        conversationId: 'conv_1',
+        userId: 'user_1',
+        responseWebhook: 'https://lerty.test/reply',
+      });
+    });
+
+    it('reads the delta of a chunk as its content', () => {
+      expect(LertyEventNormalizer.readPayload({ delta: 'Hel' }).content).toBe('Hel');
+    });
+  });
+
+  describe('normalize', () => {
+    it('outputs every field of the schema, with null for missing values', () => {
+      const event = LertyEventNormalizer.normalize({ content: 'Hi', timestamp: '2025-01-01T00:00:00Z' }, { agentId: 'agent_1' });
+
+      expect(event).toEqual({
+        schema_version: LERTY_EVENT_SCHEMA_VERSION,
+        event: 'user_message',
+        message: {
+          id: '',
+          type: 'user_message',
+          content: 'Hi',
+          format: null,
+          timestamp: '2025-01-01T00:00:00Z',
+          chunk_index: null,
+        },
+        conversation: { id: '' },
+        user: { id: null, organization_id: null },
+        agent: { id: 'agent_1', name: null, tenant_id: null, organization_id: null },
+        attachments: [],
+        metadata: {},
+        reply_context: {
+          conversation_id: '',
+          agent_id: 'agent_1',
+          user_id: null,
+          organization_id: null,
+          response_webhook: null,
+          response_mode: null,
+        },
+      });
+    });
+
+    it('fills in the agent and the reply context', () => {
+      const event = LertyEventNormalizer.normalize(
+        {
+          id: 'msg_1',
+          type: 'user_message',
+          content: 'Hi',
+          format: 'markdown',
+          conversation_id: 'conv_1',
+          user_id: 'user_1',
+          response_webhook: 'https://lerty.test/reply',
+          metadata: { source: 'web' },
+        },
+        { agentId: 'agent_1', agent, responseMode: 'lastNode' },
+      );
+
+      expect(event.message).toMatchObject({ id: 'msg_1', format: 'markdown' });
+      expect(event.agent).toEqual({ id: 'agent_1', name: 'Support', tenant_id: 'tenant_1', organization_id: 'org_1' });
+      expect(event.metadata).toEqual({ source: 'web' });
+      expect(event.reply_context).toEqual({
+        conversation_id: 'conv_1',
+        agent_id: 'agent_1',
+        user_id: 'user_1',
+        // The sender's organization defaults to the agent's
+        organization_id: 'org_1',
+        response_webhook: 'https://lerty.test/reply',
+        response_mode: 'lastNode',
+      });
+    });
+
+    it('replies to the organization named in the payload', () => {
+      const event = LertyEventNormalizer.normalize({ organization_id: 'org_2' }, { agentId: 'agent_1', agent });
+
+      expect(event.user.organization_id).toBe('org_2');
+      expect(event.reply_context.organization_id).toBe('org_2');
+    });
+
+    it('gives the same output for payloads using different field names', () => {
+      const timestamp = '2025-01-01T00:00:00Z';
+      const snakeCase = LertyEventNormalizer.normalize(
+        { message_id: 'msg_1', conversation_id: 'conv_1', user_id: 'user_1', content: 'Hi', timestamp },
+        { agentId: 'agent_1' },
+      );
+      const camelCase = LertyEventNormalizer.normalize(
+        { messageId: 'msg_1', conversationId: 'conv_1', userId: 'user_1', content: 'Hi', timestamp },
+        { agentId: 'agent_1' },
+      );
+
+      expect(camelCase).toEqual(snakeCase);
+    });
+
+    it('sets the chunk index of streamed response chunks', () => {
+      const event = LertyEventNormalizer.normalize(
+        { type: 'agent_response_chunk', message_id: 'msg_1', index: 3, delta: 'lo' },
+        { agentId: 'agent_1' },
+      );
+
+      expect(event.event).toBe('agent_response_chunk');
+      expect(event.message).toMatchObject({ id: 'msg_1', content: 'lo', chunk_index: 3 });
+    });
+
+    it('normalizes attachments, including the legacy single-file fields', () => {
+      const event = LertyEventNormalizer.normalize(
+        {
+          attachments: [{ url: 'https://files.lerty.test/a.pdf', filename: 'a.pdf', mime_type: 'application/pdf', size: 10 }],
+          file_url: 'https://files.lerty.test/b.png',
+          file_name: 'b.png',
+          file_type: 'image/png',
+        },
+        { agentId: 'agent_1' },
+      );
+
+      expect(event.attachments).toHaveLength(2);
+      expect(event.attachments[0]).toMatchObject({ url: 'https://files.lerty.test/a.pdf', filename: 'a.pdf', size: 10 });
+      expect(event.attachments[1]).toMatchObject({ url: 'https://files.lerty.test/b.png', filename: 'b.png', type: 'image' });
+    });
+
+    it('includes the raw payload only when asked to', () => {
+      const payload = { id: 'msg_1', custom: 'value' };
+
+      expect(LertyEventNormalizer.normalize(payload, { agentId: 'agent_1' })).not.toHaveProperty('raw');
+      expect(LertyEventNormalizer.normalize(payload, { agentId: 'agent_1', includeRaw: true }).raw).toBe(payload);
+    });
+  });
+});
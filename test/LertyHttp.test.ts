@@ -0,0 +1,224 @@
+import { createHmac } from 'crypto';
+import { LertyHttp } from '../utils/LertyHttp';
+import { LertyApiError } from '../utils/LertyErrors';
+
+const SECRET = 'whsec_test';
+
+function sign(body: string, timestamp: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function nowSeconds(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+function jsonResponse(status: number, body: object = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+function createHttp(): LertyHttp {
+  // No real waiting between retries
+  return new LertyHttp({ baseUrl: 'https://lerty.test', apiToken: 'token', retryDelay: 1, maxRetryDelay: 5 });
+}
+
+describe('LertyHttp.validateWebhook', () => {
+  const body = JSON.stringify({ type: 'user_message', content: 'Hello' });
+
+  it('accepts a body signed with the secret', () => {
+    const timestamp = nowSeconds();
+    expect(LertyHttp.validateWebhook(body, sign(body, timestamp), { secret: SECRET, timestamp })).toBe(true);
+  });
+
+  it('accepts the signature without the sha256= prefix and from a Buffer', () => {
+    const timestamp = nowSeconds();
+    const signature = sign(body, timestamp).replace('sha256=', '').toUpperCase();
+    expect(LertyHttp.validateWebhook(Buffer.from(body), signature, { secret: SECRET, timestamp })).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    const timestamp = nowSeconds();
+    const signature = sign(body, timestamp);
+    const tampered = body.replace('Hello', 'Hallo');
+    expect(LertyHttp.validateWebhook(tampered, signature, { secret: SECRET, timestamp })).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const timestamp = nowSeconds();
+    expect(LertyHttp.validateWebhook(body, sign(body, timestamp, 'other'), { secret: SECRET, timestamp })).toBe(false);
+  });
+
+  it('rejects a stale timestamp, even when correctly signed', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 301);
+    expect(LertyHttp.validateWebhook(body, sign(body, timestamp), { secret: SECRET, timestamp })).toBe(false);
+  });
+
+  it('rejects a timestamp changed after signing', () => {
+    const signedAt = nowSeconds();
+    const timestamp = String(Number(signedAt) - 10);
+    expect(LertyHttp.validateWebhook(body, sign(body, signedAt), { secret: SECRET, timestamp })).toBe(false);
+  });
+
+  it('accepts an old timestamp when the replay check is disabled', () => {
+    const timestamp = '1000';
+    expect(LertyHttp.validateWebhook(body, sign(body, timestamp), { secret: SECRET, timestamp, toleranceSeconds: 0 }))
+      .toBe(true);
+  });
+
+  it('rejects a missing signature or timestamp', () => {
+    const timestamp = nowSeconds();
+    expect(LertyHttp.validateWebhook(body, '', { secret: SECRET, timestamp })).toBe(false);
+    expect(LertyHttp.validateWebhook(body, sign(body, timestamp), { secret: SECRET })).toBe(false);
+  });
+});
+
+describe('LertyHttp retries', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('retries a GET on 502 and network errors until it succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockRejectedValueOnce(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }))
+      .mockResolvedValueOnce(jsonResponse(200, { agent: { id: 'agent_1' } }));
+
+    await expect(createHttp().getAgent('agent_1')).resolves.toEqual({ id: 'agent_1' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxRetries and reports the last status', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(503));
+    const lertyHttp = new LertyHttp({ baseUrl: 'https://lerty.test', apiToken: 'token', retryDelay: 1, maxRetries: 2 });
+
+    await expect(lertyHttp.getAgent('agent_1')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404, { error: 'not found' }));
+
+    await expect(createHttp().getAgent('agent_1')).rejects.toBeInstanceOf(LertyApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a message with an idempotency key and sends the same key every time', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockResolvedValueOnce(jsonResponse(504))
+      .mockResolvedValueOnce(jsonResponse(200, { message: { id: 'msg_1' } }));
+
+    await createHttp().sendMessage('agent_1', { id: 'msg_1', content: 'Hi' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const keys = fetchMock.mock.calls.map(([, init]) => (init as RequestInit & { headers: Record<string, string> }).headers['Idempotency-Key']);
+    expect(keys).toEqual(['msg_1', 'msg_1', 'msg_1']);
+  });
+
+  it('only retries a POST without idempotency key when Lerty did not process it', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(502));
+
+    await expect(createHttp().sendMessage('agent_1', { content: 'Hi' })).rejects.toMatchObject({ status: 502 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429))
+      .mockResolvedValueOnce(jsonResponse(200, { message: { id: 'msg_2' } }));
+
+    await expect(createHttp().sendMessage('agent_1', { content: 'Hi' })).resolves.toEqual({ id: 'msg_2' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not resend a POST without idempotency key after a network error', async () => {
+    fetchMock.mockRejectedValueOnce(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }));
+
+    await expect(createHttp().sendMessage('agent_1', { content: 'Hi' })).rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for Retry-After, capped by maxRetryDelay', async () => {
+    jest.useFakeTimers();
+    try {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '120' }))
+        .mockResolvedValueOnce(jsonResponse(200, { agent: { id: 'agent_1' } }));
+      const lertyHttp = new LertyHttp({ baseUrl: 'https://lerty.test', apiToken: 'token', maxRetryDelay: 2000 });
+
+      const request = lertyHttp.getAgent('agent_1');
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(request).resolves.toEqual({ id: 'agent_1' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('LertyHttp.downloadFile', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const authorizationOf = (call: number) =>
+    ((fetchMock.mock.calls[call][1] as RequestInit).headers as Record<string, string>)['Authorization'];
+
+  it('sends the API token to Lerty only', async () => {
+    fetchMock.mockImplementation(async () => new Response('data'));
+    const lertyHttp = createHttp();
+
+    await lertyHttp.downloadFile('https://lerty.test/files/report.pdf');
+    await lertyHttp.downloadFile('https://bucket.s3.amazonaws.com/report.pdf?X-Amz-Signature=abc');
+
+    expect(authorizationOf(0)).toBe('Bearer token');
+    expect(authorizationOf(1)).toBeUndefined();
+  });
+
+  it('refuses files announced as too large without downloading them', async () => {
+    await expect(createHttp().downloadFile('https://lerty.test/files/big.zip', { maxSize: 10, expectedSize: 11 }))
+      .rejects.toThrow('File is too large');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses files whose Content-Length is too large', async () => {
+    fetchMock.mockResolvedValue(new Response('12345678901', { headers: { 'Content-Length': '11' } }));
+
+    await expect(createHttp().downloadFile('https://lerty.test/files/big.zip', { maxSize: 10 }))
+      .rejects.toThrow('File is too large');
+  });
+
+  it('stops reading once the body passes maxSize', async () => {
+    // A stream has no Content-Length, so only the cap while reading catches it
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('123456'));
+        controller.enqueue(new TextEncoder().encode('789012'));
+        controller.close();
+      },
+    });
+    fetchMock.mockResolvedValue(new Response(body));
+
+    await expect(createHttp().downloadFile('https://lerty.test/files/big.zip', { maxSize: 10 }))
+      .rejects.toThrow('File is too large');
+  });
+
+  it('returns the file content within the limit', async () => {
+    fetchMock.mockResolvedValue(new Response('12345'));
+
+    const buffer = await createHttp().downloadFile('https://lerty.test/files/small.txt', { maxSize: 10 });
+    expect(buffer.toString()).toBe('12345');
+  });
+});
@@ -0,0 +1,28 @@
+import { LertyResponseStream } from '../utils/LertyResponseStream';
+
+describe('LertyResponseStream', () => {
+  it('builds the start event of a reply', () => {
+    expect(LertyResponseStream.buildStart('conv_1', 'msg_1')).toEqual({
+      type: 'agent_response_start',
+      conversation_id: 'conv_1',
+      message_id: 'msg_1',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('builds a chunk event carrying its index and delta', () => {
+    expect(LertyResponseStream.buildChunk('conv_1', 'msg_1', 2, 'lo')).toEqual({
+      type: 'agent_response_chunk',
+      conversation_id: 'conv_1',
+      message_id: 'msg_1',
+      index: 2,
+      delta: 'lo',
+    });
+  });
+
+  it('gives every event of a stream its own idempotency key', () => {
+    expect(LertyResponseStream.buildIdempotencyKey('msg_1')).toBe('msg_1:start');
+    expect(LertyResponseStream.buildIdempotencyKey('msg_1', 0)).toBe('msg_1:0');
+    expect(LertyResponseStream.buildIdempotencyKey('msg_1', 1)).toBe('msg_1:1');
+  });
+});
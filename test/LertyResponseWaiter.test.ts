@@ -0,0 +1,131 @@
+import { LertyAgent, LertyConversationMessage, LertyHttp } from '../utils/LertyHttp';
+import { lertyConnections } from '../utils/LertyConnectionManager';
+import { LertyMessage } from '../utils/LertyWebSocket';
+import { LertyResponseWaiter } from '../utils/LertyResponseWaiter';
+
+jest.mock('../utils/LertyConnectionManager', () => ({
+  lertyConnections: { subscribe: jest.fn() },
+}));
+
+const subscribe = lertyConnections.subscribe as jest.Mock;
+
+const agent: LertyAgent = {
+  id: 'agent_1',
+  name: 'Agent',
+  status: 'active',
+  tenantId: 'tenant_1',
+  organizationId: 'org_1',
+};
+
+const SINCE = '2025-01-01T00:00:00Z';
+
+const agentResponse: LertyConversationMessage = {
+  id: 'msg_2',
+  type: 'agent_response',
+  conversationId: 'conv_1',
+  content: 'Hello',
+  timestamp: '2025-01-01T00:00:01Z',
+};
+
+function createHttp(messages: LertyConversationMessage[][]): LertyHttp {
+  const lertyHttp = new LertyHttp({ baseUrl: 'https://lerty.test', apiToken: 'token' });
+  const getConversationMessages = jest.spyOn(lertyHttp, 'getConversationMessages');
+  messages.forEach((data) => getConversationMessages.mockResolvedValueOnce({ data }));
+  getConversationMessages.mockResolvedValue({ data: [] });
+  return lertyHttp;
+}
+
+function createWaiter(lertyHttp: LertyHttp): LertyResponseWaiter {
+  return new LertyResponseWaiter({
+    lertyHttp,
+    agent,
+    wsUrl: 'wss://lerty.test/socket',
+    apiToken: 'token',
+    timeout: 10000,
+    pollInterval: 1000,
+    joinTimeout: 5000,
+  });
+}
+
+// Joins right away; the test delivers messages through the returned callback
+function joinChannel(connected = { value: true }) {
+  const release = jest.fn();
+  let deliver: (message: LertyMessage) => void = () => {};
+  subscribe.mockImplementation(async (_config, topic, callback) => {
+    deliver = callback;
+    return { topic, websocket: { canPush: () => connected.value }, release };
+  });
+  return { release, connected, deliver: (message: LertyMessage) => deliver(message) };
+}
+
+describe('LertyResponseWaiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    subscribe.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves with the agent response received on the channel', async () => {
+    const channel = joinChannel();
+    const waiter = createWaiter(createHttp([]));
+
+    await waiter.start();
+    const waiting = waiter.wait('conv_1', SINCE);
+    channel.deliver({ ...agentResponse, metadata: {}, attachments: [] } as unknown as LertyMessage);
+
+    await expect(waiting).resolves.toMatchObject({ id: 'msg_2', content: 'Hello', receivedVia: 'websocket' });
+    await waiter.stop();
+    expect(channel.release).toHaveBeenCalled();
+  });
+
+  it('polls the history when the channel join does not finish within joinTimeout', async () => {
+    const release = jest.fn();
+    let joined: (subscription: object) => void = () => {};
+    subscribe.mockReturnValue(new Promise((resolve) => {
+      joined = resolve;
+    }));
+    const waiter = createWaiter(createHttp([[agentResponse]]));
+
+    const starting = waiter.start();
+    await jest.advanceTimersByTimeAsync(5000);
+    await starting;
+
+    await expect(waiter.wait('conv_1', SINCE)).resolves.toMatchObject({ id: 'msg_2', receivedVia: 'polling' });
+
+    // A join completing after we gave up on it is released again
+    joined({ topic: 'agent_chat:agent_1', release });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('switches to polling when the socket drops while waiting', async () => {
+    const channel = joinChannel();
+    const lertyHttp = createHttp([[agentResponse]]);
+    const waiter = createWaiter(lertyHttp);
+
+    await waiter.start();
+    const waiting = waiter.wait('conv_1', SINCE);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(lertyHttp.getConversationMessages).not.toHaveBeenCalled();
+
+    channel.connected.value = false;
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(waiting).resolves.toMatchObject({ id: 'msg_2', receivedVia: 'polling' });
+    expect(lertyHttp.getConversationMessages).toHaveBeenCalledWith('conv_1', { after: SINCE });
+  });
+
+  it('resolves with null when no response arrives within the timeout', async () => {
+    joinChannel();
+    const waiter = createWaiter(createHttp([]));
+
+    await waiter.start();
+    const waiting = waiter.wait('conv_1', SINCE);
+    await jest.advanceTimersByTimeAsync(10000);
+
+    await expect(waiting).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import { LertyHttp } from '../utils/LertyHttp';
+import { LertyTimeoutError } from '../utils/LertyErrors';
+import { LertyTransport } from '../utils/LertyTransport';
+import { lertyConnections } from '../utils/LertyConnectionManager';
+
+jest.mock('../utils/LertyConnectionManager', () => ({
+  lertyConnections: { subscribe: jest.fn() },
+}));
+
+const subscribe = lertyConnections.subscribe as jest.Mock;
+
+function createWebsocket(canPush: boolean, push: jest.Mock) {
+  return { canPush: jest.fn(() => canPush), push };
+}
+
+function createTransport(websocket: ReturnType<typeof createWebsocket>, release = jest.fn()): LertyTransport {
+  subscribe.mockResolvedValue({ topic: 'agent_chat:agent_1', websocket, release });
+  return new LertyTransport({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+}
+
+function createHttp(): LertyHttp {
+  const lertyHttp = new LertyHttp({ baseUrl: 'https://lerty.test', apiToken: 'token' });
+  jest.spyOn(lertyHttp, 'getAgent').mockResolvedValue({
+    id: 'agent_1',
+    name: 'Agent',
+    status: 'active',
+    tenantId: 'tenant_1',
+    organizationId: 'org_1',
+  });
+  return lertyHttp;
+}
+
+describe('LertyTransport.deliver', () => {
+  beforeEach(() => {
+    subscribe.mockReset();
+  });
+
+  it('pushes over the socket without queueing and tags the push with the idempotency key', async () => {
+    const push = jest.fn().mockResolvedValue({ status: 'delivered' });
+    const transport = createTransport(createWebsocket(true, push));
+    const httpFallback = jest.fn();
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'message', payload: { content: 'Hi' }, messageId: 'msg_1' },
+      httpFallback,
+    );
+
+    expect(result).toEqual({ transport: 'websocket' });
+    expect(push).toHaveBeenCalledWith(
+      'agent_chat:agent_1',
+      'message',
+      { content: 'Hi', idempotency_key: 'msg_1' },
+      'msg_1',
+      { queue: false },
+    );
+    expect(httpFallback).not.toHaveBeenCalled();
+  });
+
+  it('uses HTTP without a WebSocket URL', async () => {
+    const transport = new LertyTransport({ apiToken: 'token' });
+    const httpFallback = jest.fn().mockResolvedValue({ ok: true });
+
+    const result = await transport.deliver(createHttp(), { agentId: 'agent_1', event: 'message', payload: {} }, httpFallback);
+
+    expect(result).toEqual({ transport: 'http', response: { ok: true } });
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+
+  it('uses HTTP without pushing when the channel is not joined', async () => {
+    const push = jest.fn();
+    const transport = createTransport(createWebsocket(false, push));
+    const httpFallback = jest.fn().mockResolvedValue({ ok: true });
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'typing', payload: { typing: true } },
+      httpFallback,
+    );
+
+    expect(result).toEqual({ transport: 'http', response: { ok: true } });
+    expect(push).not.toHaveBeenCalled();
+  });
+
+  it('uses HTTP when the channel cannot be joined', async () => {
+    subscribe.mockRejectedValue(new Error('join refused'));
+    const transport = new LertyTransport({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    const httpFallback = jest.fn().mockResolvedValue({ ok: true });
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'message', payload: {}, messageId: 'msg_1' },
+      httpFallback,
+    );
+
+    expect(result.transport).toBe('http');
+  });
+
+  it('resends an unanswered push over HTTP when both share the idempotency key', async () => {
+    const push = jest.fn().mockRejectedValue(new LertyTimeoutError('wss://lerty.test/socket', 10000));
+    const transport = createTransport(createWebsocket(true, push));
+    const httpFallback = jest.fn().mockResolvedValue({ id: 'msg_1' });
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'message', payload: {}, messageId: 'msg_1' },
+      httpFallback,
+    );
+
+    expect(result).toEqual({ transport: 'http', response: { id: 'msg_1' } });
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not resend an unanswered push without idempotency key', async () => {
+    const push = jest.fn().mockRejectedValue(new LertyTimeoutError('wss://lerty.test/socket', 10000));
+    const transport = createTransport(createWebsocket(true, push));
+    const httpFallback = jest.fn();
+
+    await expect(transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'message', payload: {} },
+      httpFallback,
+    )).rejects.toBeInstanceOf(LertyTimeoutError);
+    expect(httpFallback).not.toHaveBeenCalled();
+  });
+
+  it('resends an unanswered idempotent push without idempotency key', async () => {
+    const push = jest.fn().mockRejectedValue(new LertyTimeoutError('wss://lerty.test/socket', 10000));
+    const transport = createTransport(createWebsocket(true, push));
+    const httpFallback = jest.fn().mockResolvedValue({});
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'typing', payload: { typing: true }, idempotent: true },
+      httpFallback,
+    );
+
+    expect(result.transport).toBe('http');
+  });
+
+  it('resends over HTTP when the push is refused', async () => {
+    const push = jest.fn().mockRejectedValue(new Error('refused'));
+    const transport = createTransport(createWebsocket(true, push));
+    const httpFallback = jest.fn().mockResolvedValue({});
+
+    const result = await transport.deliver(
+      createHttp(),
+      { agentId: 'agent_1', event: 'message', payload: {} },
+      httpFallback,
+    );
+
+    expect(result.transport).toBe('http');
+  });
+
+  it('joins each agent\'s channel once and releases it on close()', async () => {
+    const release = jest.fn();
+    const transport = createTransport(createWebsocket(true, jest.fn().mockResolvedValue({ status: 'delivered' })), release);
+    const lertyHttp = createHttp();
+
+    await transport.deliver(lertyHttp, { agentId: 'agent_1', event: 'message', payload: {} }, jest.fn());
+    await transport.deliver(lertyHttp, { agentId: 'agent_1', event: 'typing', payload: {} }, jest.fn());
+    await transport.close();
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,329 @@
+import { IDataObject, IHookFunctions, ITriggerFunctions, IWebhookFunctions, NodeOperationError } from 'n8n-workflow';
+import { LertyTrigger } from '../nodes/LertyTrigger/LertyTrigger.node';
+import { lertyConnections } from '../utils/LertyConnectionManager';
+import { LertyApiError, LertyTimeoutError } from '../utils/LertyErrors';
+import { LertyHttp } from '../utils/LertyHttp';
+import { LertyMessage } from '../utils/LertyWebSocket';
+
+const WEBHOOK_URL = 'https://n8n.test/webhook/abc';
+
+function createHookContext(parameters: IDataObject, staticData: IDataObject = {}): IHookFunctions {
+  return {
+    getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+    getNodeWebhookUrl: () => WEBHOOK_URL,
+    getWorkflowStaticData: () => staticData,
+    getCredentials: async () => ({ baseUrl: 'https://lerty.test', apiToken: 'token' }),
+    getNode: () => ({ id: 'node_1', name: 'Lerty Trigger', type: 'n8n-nodes-lerty.lertyTrigger', typeVersion: 2, position: [0, 0], parameters }),
+  } as unknown as IHookFunctions;
+}
+
+function createTriggerContext(parameters: IDataObject): ITriggerFunctions {
+  return {
+    getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+    getCredentials: async () => ({ baseUrl: 'https://lerty.test', apiToken: 'token', wsUrl: 'wss://lerty.test/socket' }),
+    getNode: () => ({ id: 'node_1', name: 'Lerty Trigger', type: 'n8n-nodes-lerty.lertyTrigger', typeVersion: 2, position: [0, 0], parameters }),
+    getWorkflowStaticData: () => ({}),
+    emit: jest.fn(),
+    emitError: jest.fn(),
+  } as unknown as ITriggerFunctions;
+}
+
+function createWebhookContext(parameters: IDataObject, body: IDataObject, staticData: IDataObject): IWebhookFunctions {
+  return {
+    getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+    getBodyData: () => body,
+    getHeaderData: () => ({}),
+    getQueryData: () => ({}),
+    getCredentials: async () => ({ baseUrl: 'https://lerty.test', apiToken: 'token' }),
+    getNode: () => ({ id: 'node_1', name: 'Lerty Trigger', type: 'n8n-nodes-lerty.lertyTrigger', typeVersion: 2, position: [0, 0], parameters }),
+    getWorkflow: () => ({ id: 'workflow_1' }),
+    getWorkflowStaticData: () => staticData,
+  } as unknown as IWebhookFunctions;
+}
+
+const singleAgent: IDataObject = {
+  connectionMode: 'webhook',
+  agentScope: 'single',
+  agentId: 'agent_1',
+  eventTypes: ['user_message'],
+  additionalFields: { secretToken: 'secret' },
+};
+
+describe('Lerty Trigger webhook setup', () => {
+  const { default: hooks } = new LertyTrigger().webhookMethods;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sets up the agent webhook and remembers a fingerprint of the secret', async () => {
+    const registerWebhook = jest.spyOn(LertyHttp.prototype, 'registerWebhook')
+      .mockResolvedValue({ url: WEBHOOK_URL, agentId: 'agent_1', eventTypes: ['user_message'] });
+    const staticData: IDataObject = {};
+
+    await hooks.create.call(createHookContext(singleAgent, staticData));
+
+    expect(registerWebhook).toHaveBeenCalledWith('agent_1', { url: WEBHOOK_URL, event_types: ['user_message'], secret: 'secret' });
+    expect(staticData.agentIds).toEqual(['agent_1']);
+    expect(staticData.secretFingerprint).toEqual(expect.any(String));
+    expect(staticData.secretFingerprint).not.toContain('secret');
+  });
+
+  it('refuses to set up the webhook with an invalid content filter', async () => {
+    const registerWebhook = jest.spyOn(LertyHttp.prototype, 'registerWebhook');
+
+    await expect(hooks.create.call(createHookContext({ ...singleAgent, filters: { contentRegex: '(' } })))
+      .rejects.toThrow('Invalid content filter');
+    expect(registerWebhook).not.toHaveBeenCalled();
+  });
+
+  it('sets up the webhook of each selected agent with the agent in the URL', async () => {
+    const registerWebhook = jest.spyOn(LertyHttp.prototype, 'registerWebhook')
+      .mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'] });
+    const staticData: IDataObject = {};
+
+    await hooks.create.call(createHookContext({ ...singleAgent, agentScope: 'multiple', agentIds: ['agent_1', 'agent_2'] }, staticData));
+
+    expect(registerWebhook).toHaveBeenCalledWith('agent_1', expect.objectContaining({ url: `${WEBHOOK_URL}?agent_id=agent_1` }));
+    expect(registerWebhook).toHaveBeenCalledWith('agent_2', expect.objectContaining({ url: `${WEBHOOK_URL}?agent_id=agent_2` }));
+    expect(staticData.agentIds).toEqual(['agent_1', 'agent_2']);
+  });
+
+  it('sets up the webhook of every agent of the organization', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getAgents').mockResolvedValue([
+      { id: 'agent_1', name: 'One', status: 'active', tenantId: 'tenant_1', organizationId: 'org_1' },
+      { id: 'agent_2', name: 'Two', status: 'active', tenantId: 'tenant_1', organizationId: 'org_1' },
+    ]);
+    const registerWebhook = jest.spyOn(LertyHttp.prototype, 'registerWebhook')
+      .mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'] });
+
+    await hooks.create.call(createHookContext({ ...singleAgent, agentScope: 'all' }));
+
+    expect(registerWebhook.mock.calls.map(([agentId]) => agentId)).toEqual(['agent_1', 'agent_2']);
+  });
+
+  it('removes the webhook of agents dropped from the selection', async () => {
+    jest.spyOn(LertyHttp.prototype, 'registerWebhook').mockResolvedValue({ url: WEBHOOK_URL, eventTypes: [] });
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockImplementation(async (agentId) => ({
+      url: `${WEBHOOK_URL}?agent_id=${agentId}`,
+      eventTypes: ['user_message'],
+    }));
+    const deleteWebhook = jest.spyOn(LertyHttp.prototype, 'deleteWebhook').mockResolvedValue();
+    const staticData: IDataObject = { agentIds: ['agent_1', 'agent_2'] };
+
+    await hooks.create.call(createHookContext({ ...singleAgent, agentScope: 'multiple', agentIds: ['agent_1'] }, staticData));
+
+    expect(deleteWebhook).toHaveBeenCalledWith('agent_2');
+    expect(deleteWebhook).not.toHaveBeenCalledWith('agent_1');
+    expect(staticData.agentIds).toEqual(['agent_1']);
+  });
+
+  it('remembers the agents set up before a registration failed', async () => {
+    jest.spyOn(LertyHttp.prototype, 'registerWebhook')
+      .mockResolvedValueOnce({ url: WEBHOOK_URL, eventTypes: [] })
+      .mockRejectedValueOnce(new LertyApiError(500, 'POST', '/webhooks/agents/agent_2/setup'));
+    const staticData: IDataObject = {};
+
+    await expect(hooks.create.call(createHookContext({ ...singleAgent, agentScope: 'multiple', agentIds: ['agent_1', 'agent_2'] }, staticData)))
+      .rejects.toThrow();
+    expect(staticData.agentIds).toEqual(['agent_1']);
+  });
+
+  it('finds the agent webhook set up on an earlier activation', async () => {
+    jest.spyOn(LertyHttp.prototype, 'registerWebhook')
+      .mockResolvedValue({ url: WEBHOOK_URL, agentId: 'agent_1', eventTypes: ['user_message'] });
+    jest.spyOn(LertyHttp.prototype, 'getWebhook')
+      .mockResolvedValue({ url: WEBHOOK_URL, agentId: 'agent_1', eventTypes: ['user_message'] });
+    const staticData: IDataObject = {};
+
+    await hooks.create.call(createHookContext(singleAgent, staticData));
+
+    expect(await hooks.checkExists.call(createHookContext(singleAgent, staticData))).toBe(true);
+  });
+
+  it('sets the webhook up again when its URL, event types or secret changed', async () => {
+    const getWebhook = jest.spyOn(LertyHttp.prototype, 'getWebhook');
+
+    getWebhook.mockResolvedValueOnce({ url: 'https://elsewhere.test/hook', eventTypes: ['user_message'], secret: 'secret' });
+    expect(await hooks.checkExists.call(createHookContext(singleAgent))).toBe(false);
+
+    getWebhook.mockResolvedValueOnce({ url: WEBHOOK_URL, eventTypes: ['user_message', 'agent_response'], secret: 'secret' });
+    expect(await hooks.checkExists.call(createHookContext(singleAgent))).toBe(false);
+
+    getWebhook.mockResolvedValueOnce({ url: WEBHOOK_URL, eventTypes: ['user_message'], secret: 'other' });
+    expect(await hooks.checkExists.call(createHookContext(singleAgent))).toBe(false);
+
+    getWebhook.mockResolvedValueOnce(null);
+    expect(await hooks.checkExists.call(createHookContext(singleAgent))).toBe(false);
+  });
+
+  it('sets the webhooks up again when an agent was dropped from the selection', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'], secret: 'secret' });
+    const staticData: IDataObject = { agentIds: ['agent_1', 'agent_2'] };
+
+    expect(await hooks.checkExists.call(createHookContext(singleAgent, staticData))).toBe(false);
+  });
+
+  it('deletes the agent webhook on deactivation', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockImplementation(async (agentId) => ({
+      url: `${WEBHOOK_URL}?agent_id=${agentId}`,
+      eventTypes: ['user_message'],
+    }));
+    const deleteWebhook = jest.spyOn(LertyHttp.prototype, 'deleteWebhook').mockResolvedValue();
+    const staticData: IDataObject = { agentIds: ['agent_1', 'agent_2'], secretFingerprint: 'abc' };
+
+    expect(await hooks.delete.call(createHookContext(singleAgent, staticData))).toBe(true);
+    expect(deleteWebhook).toHaveBeenCalledWith('agent_1');
+    expect(deleteWebhook).toHaveBeenCalledWith('agent_2');
+    expect(staticData).toEqual({});
+  });
+
+  it('deletes the webhook stored before several agents were supported', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'] });
+    const deleteWebhook = jest.spyOn(LertyHttp.prototype, 'deleteWebhook').mockResolvedValue();
+    const staticData: IDataObject = { agentId: 'agent_1' };
+
+    expect(await hooks.delete.call(createHookContext(singleAgent, staticData))).toBe(true);
+    expect(deleteWebhook).toHaveBeenCalledWith('agent_1');
+    expect(staticData).toEqual({});
+  });
+
+  it('leaves a webhook that another workflow set up for the agent since', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockResolvedValue({ url: 'https://n8n.test/webhook/other', eventTypes: ['user_message'] });
+    const deleteWebhook = jest.spyOn(LertyHttp.prototype, 'deleteWebhook').mockResolvedValue();
+    const staticData: IDataObject = { agentIds: ['agent_1'] };
+
+    expect(await hooks.delete.call(createHookContext(singleAgent, staticData))).toBe(true);
+    expect(deleteWebhook).not.toHaveBeenCalled();
+    expect(staticData).toEqual({});
+  });
+
+  it('keeps the agents whose webhook could not be deleted', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'] });
+    jest.spyOn(LertyHttp.prototype, 'deleteWebhook')
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new LertyApiError(500, 'DELETE', '/webhooks/agents/agent_2/webhook'));
+    const staticData: IDataObject = { agentIds: ['agent_1', 'agent_2'] };
+
+    expect(await hooks.delete.call(createHookContext(singleAgent, staticData))).toBe(false);
+    expect(staticData.agentIds).toEqual(['agent_2']);
+  });
+
+  it('forgets a webhook that was already removed on the Lerty side', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getWebhook').mockResolvedValue({ url: WEBHOOK_URL, eventTypes: ['user_message'] });
+    jest.spyOn(LertyHttp.prototype, 'deleteWebhook').mockRejectedValue(new LertyApiError(404, 'DELETE', '/webhooks/agents/agent_1/webhook'));
+    const staticData: IDataObject = { agentId: 'agent_1' };
+
+    expect(await hooks.delete.call(createHookContext(singleAgent, staticData))).toBe(true);
+    expect(staticData).toEqual({});
+  });
+});
+
+describe('Lerty Trigger WebSocket activation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fails activation with an invalid content filter in webhook mode as well', async () => {
+    await expect(new LertyTrigger().trigger.call(createTriggerContext({ ...singleAgent, filters: { contentRegex: '[' } })))
+      .rejects.toThrow('Invalid content filter');
+  });
+
+  it('fails activation when the channel join times out', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getAgent').mockResolvedValue({
+      id: 'agent_1',
+      name: 'Agent',
+      status: 'active',
+      tenantId: 'tenant_1',
+      organizationId: 'org_1',
+    });
+    jest.spyOn(lertyConnections, 'subscribe').mockRejectedValue(new LertyTimeoutError('wss://lerty.test/socket', 10000));
+
+    const activating = new LertyTrigger().trigger.call(createTriggerContext({ ...singleAgent, connectionMode: 'websocket' }));
+
+    await expect(activating).rejects.toBeInstanceOf(NodeOperationError);
+    await expect(activating).rejects.toThrow('timed out after 10000 ms');
+  });
+});
+
+describe('Lerty Trigger WebSocket events', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('normalizes the payload Lerty sent, not only the parsed message fields', async () => {
+    jest.spyOn(LertyHttp.prototype, 'getAgent').mockResolvedValue({
+      id: 'agent_1',
+      name: 'Agent',
+      status: 'active',
+      tenantId: 'tenant_1',
+      organizationId: 'org_1',
+    });
+    let deliver: (message: LertyMessage) => Promise<void> = async () => {};
+    jest.spyOn(lertyConnections, 'subscribe').mockImplementation(async (_config, topic, callback) => {
+      deliver = callback as typeof deliver;
+      return { topic, release: jest.fn() } as never;
+    });
+    const context = createTriggerContext({
+      ...singleAgent,
+      connectionMode: 'websocket',
+      additionalFields: { includeRawPayload: true },
+    });
+    const payload = {
+      id: 'msg_1',
+      content: '**Hi**',
+      format: 'markdown',
+      conversation_id: 'conv_1',
+      organization_id: 'org_2',
+      response_webhook: 'https://lerty.test/reply',
+    };
+
+    const { closeFunction } = await new LertyTrigger().trigger.call(context);
+    await deliver({ id: 'msg_1', type: 'user_message', content: '**Hi**', conversationId: 'conv_1', timestamp: '', attachments: [], raw: payload });
+    await closeFunction!();
+
+    const event = (context.emit as jest.Mock).mock.calls[0][0][0][0].json;
+    expect(event.message).toMatchObject({ id: 'msg_1', type: 'user_message', format: 'markdown' });
+    expect(event.reply_context).toMatchObject({ organization_id: 'org_2', response_webhook: 'https://lerty.test/reply' });
+    expect(event.raw).toMatchObject(payload);
+  });
+});
+
+describe('Lerty Trigger redelivered webhook events', () => {
+  const message = { type: 'user_message', message_id: 'msg_1', conversation_id: 'conv_1', content: 'Hi' };
+
+  beforeEach(() => {
+    jest.spyOn(LertyHttp.prototype, 'getAgents').mockResolvedValue([]);
+    // The trigger logs its output for debugging
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function deliverTwice(responseMode: string) {
+    const staticData: IDataObject = {};
+    const parameters = { ...singleAgent, additionalFields: {}, responseMode };
+    const trigger = new LertyTrigger();
+
+    const first = await trigger.webhook.call(createWebhookContext(parameters, message, staticData));
+    const second = await trigger.webhook.call(createWebhookContext(parameters, message, staticData));
+    return [first, second];
+  }
+
+  it('acknowledges a redelivery without a second execution when responding immediately', async () => {
+    const [first, second] = await deliverTwice('onReceived');
+
+    expect(first.workflowData).toBeDefined();
+    expect(second).toEqual({ webhookResponse: { status: 200, body: { received: true, duplicate: true } } });
+  });
+
+  it.each(['lastNode', 'responseNode'])('runs a redelivery again with the %s response mode', async (responseMode) => {
+    const [first, second] = await deliverTwice(responseMode);
+
+    expect(first.workflowData).toBeDefined();
+    expect(second.workflowData).toBeDefined();
+  });
+});
+
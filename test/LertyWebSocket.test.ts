@@ -0,0 +1,379 @@
+import { LertyTimeoutError } from '../utils/LertyErrors';
+import { LertyDeliveryReport, LertyMessage, LertyWebSocket } from '../utils/LertyWebSocket';
+
+// Stands in for a Phoenix push: the test decides when and how Lerty answers
+class MockPush {
+  private callbacks: Map<string, (response?: unknown) => void> = new Map();
+
+  receive(status: string, callback: (response?: unknown) => void): this {
+    this.callbacks.set(status, callback);
+    return this;
+  }
+
+  reply(status: 'ok' | 'error' | 'timeout', response?: unknown): void {
+    this.callbacks.get(status)?.(response);
+  }
+}
+
+class MockChannel {
+  readonly joinPush = new MockPush();
+  readonly pushes: Array<{ event: string; payload: unknown; push: MockPush }> = [];
+  private handlers: Map<string, (payload: unknown) => void> = new Map();
+
+  constructor(readonly topic: string, readonly params: object) {}
+
+  on(event: string, callback: (payload: unknown) => void): void {
+    this.handlers.set(event, callback);
+  }
+
+  join(): MockPush {
+    return this.joinPush;
+  }
+
+  readonly leave = jest.fn(() => new MockPush());
+
+  push(event: string, payload: unknown): MockPush {
+    const push = new MockPush();
+    this.pushes.push({ event, payload, push });
+    return push;
+  }
+
+  receive(event: string, payload: unknown): void {
+    this.handlers.get(event)?.(payload);
+  }
+}
+
+class MockSocket {
+  static instances: MockSocket[] = [];
+  readonly channels: MockChannel[] = [];
+  readonly disconnect = jest.fn();
+  private callbacks: { [event: string]: (error?: unknown) => void } = {};
+
+  constructor(readonly url: string, readonly options: object) {
+    MockSocket.instances.push(this);
+  }
+
+  onOpen(callback: () => void): void {
+    this.callbacks.open = callback;
+  }
+
+  onError(callback: (error: unknown) => void): void {
+    this.callbacks.error = callback;
+  }
+
+  onClose(callback: () => void): void {
+    this.callbacks.close = callback;
+  }
+
+  connect(): void {}
+
+  channel(topic: string, params: object): MockChannel {
+    const channel = new MockChannel(topic, params);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  open(): void {
+    this.callbacks.open();
+  }
+
+  close(): void {
+    this.callbacks.close();
+  }
+}
+
+jest.mock('phoenix', () => ({
+  Socket: function (url: string, options: object) {
+    return new MockSocket(url, options);
+  },
+}));
+
+const TOPIC = 'agent_chat:tenant_1_org_1_agent_1';
+
+const lastSocket = () => MockSocket.instances[MockSocket.instances.length - 1];
+const lastChannel = () => lastSocket().channels[lastSocket().channels.length - 1];
+
+async function connect(websocket: LertyWebSocket): Promise<void> {
+  const connecting = websocket.connect();
+  lastSocket().open();
+  await connecting;
+}
+
+async function connectAndSubscribe(
+  websocket: LertyWebSocket,
+  callback: (message: LertyMessage) => void = () => {},
+): Promise<MockChannel> {
+  await connect(websocket);
+  const subscribing = websocket.subscribe(TOPIC, callback);
+  lastChannel().joinPush.reply('ok');
+  await subscribing;
+  return lastChannel();
+}
+
+// Lets the socket reconnect after `delay` and rejoins its channel
+async function reconnect(delay: number): Promise<MockChannel> {
+  const sockets = MockSocket.instances.length;
+  await jest.advanceTimersByTimeAsync(delay);
+  expect(MockSocket.instances).toHaveLength(sockets + 1);
+
+  lastSocket().open();
+  lastChannel().joinPush.reply('ok');
+  await jest.advanceTimersByTimeAsync(0);
+  return lastChannel();
+}
+
+describe('LertyWebSocket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockSocket.instances = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('pushes right away while the channel is joined', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    const channel = await connectAndSubscribe(websocket);
+
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1', content: 'Hi' });
+    expect(channel.pushes).toHaveLength(1);
+    expect(channel.pushes[0].payload).toEqual({ id: 'msg_1', content: 'Hi' });
+
+    channel.pushes[0].push.reply('ok');
+    await expect(sending).resolves.toEqual({ topic: TOPIC, messageId: 'msg_1', status: 'delivered' });
+  });
+
+  it('joins with the token, role and extra params', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    await connect(websocket);
+
+    const subscribing = websocket.subscribe(TOPIC, () => {}, { params: { client: 'n8n' } });
+    lastChannel().joinPush.reply('ok');
+    await subscribing;
+
+    expect(lastChannel().params).toEqual({ token: 'token', role: 'agent', client: 'n8n' });
+  });
+
+  it('gives up on a handshake the server never answers and tries again', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token', timeout: 1000, reconnectAfterMs: 500 });
+
+    const connecting = websocket.connect();
+    const rejected = expect(connecting).rejects.toBeInstanceOf(LertyTimeoutError);
+    await jest.advanceTimersByTimeAsync(1000);
+    await rejected;
+    expect(MockSocket.instances[0].disconnect).toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(MockSocket.instances).toHaveLength(2);
+    await websocket.disconnect();
+  });
+
+  it('rejects and leaves a join that times out', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    await connect(websocket);
+
+    const subscribing = websocket.subscribe(TOPIC, () => {});
+    lastChannel().joinPush.reply('timeout');
+
+    await expect(subscribing).rejects.toBeInstanceOf(LertyTimeoutError);
+    expect(lastChannel().leave).toHaveBeenCalled();
+    expect(websocket.isTopicSubscribed(TOPIC)).toBe(false);
+  });
+
+  it('passes chat message events to the callback and every event to its typed handlers', async () => {
+    const received: LertyMessage[] = [];
+    const typing = jest.fn();
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    await connect(websocket);
+
+    const subscribing = websocket.subscribe(TOPIC, (message) => received.push(message), { handlers: { typing } });
+    const channel = lastChannel();
+    channel.joinPush.reply('ok');
+    await subscribing;
+    const agentResponse = jest.fn();
+    websocket.on(TOPIC, 'agent_response', agentResponse);
+
+    channel.receive('agent_response', { id: 'msg_1', content: 'Hello', conversation_id: 'conv_1' });
+    channel.receive('typing', { conversation_id: 'conv_1', typing: false });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ id: 'msg_1', type: 'agent_response', conversationId: 'conv_1' });
+    expect(received[0].raw).toEqual({ id: 'msg_1', content: 'Hello', conversation_id: 'conv_1' });
+    expect(agentResponse).toHaveBeenCalledWith(received[0]);
+    expect(typing).toHaveBeenCalledWith({ conversationId: 'conv_1', userId: undefined, agentId: undefined, typing: false });
+  });
+
+  it('parses the chunks of a streamed response', async () => {
+    const chunk = jest.fn();
+    const received = jest.fn();
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    await connect(websocket);
+
+    const subscribing = websocket.subscribe(TOPIC, received, { handlers: { agent_response_chunk: chunk } });
+    const channel = lastChannel();
+    channel.joinPush.reply('ok');
+    await subscribing;
+
+    channel.receive('agent_response_chunk', { message_id: 'msg_1', conversation_id: 'conv_1', index: '2', delta: 'lo' });
+
+    expect(chunk).toHaveBeenCalledWith({ messageId: 'msg_1', conversationId: 'conv_1', index: 2, delta: 'lo' });
+    // Chunks are not complete messages
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('holds messages while disconnected and pushes them in order after rejoining', async () => {
+    const reports: LertyDeliveryReport[] = [];
+    const websocket = new LertyWebSocket({
+      wsUrl: 'wss://lerty.test/socket',
+      apiToken: 'token',
+      reconnectAfterMs: 1000,
+      onDeliveryReport: (report) => reports.push(report),
+    });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    const first = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    const second = websocket.sendMessage(TOPIC, { id: 'msg_2' });
+    expect(websocket.getOutboxSize()).toBe(2);
+
+    const channel = await reconnect(1000);
+    expect(websocket.getOutboxSize()).toBe(0);
+    expect(channel.pushes.map((push) => (push.payload as LertyMessage).id)).toEqual(['msg_1', 'msg_2']);
+
+    channel.pushes.forEach(({ push }) => push.reply('ok'));
+    await expect(first).resolves.toMatchObject({ status: 'delivered' });
+    await expect(second).resolves.toMatchObject({ status: 'delivered' });
+    expect(reports.map((report) => report.messageId)).toEqual(['msg_1', 'msg_2']);
+  });
+
+  it('rejoins the channel after a reconnect, so messages keep arriving', async () => {
+    const received: LertyMessage[] = [];
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token', reconnectAfterMs: 1000 });
+    await connectAndSubscribe(websocket, (message) => received.push(message));
+
+    lastSocket().close();
+    const channel = await reconnect(1000);
+    channel.receive('message', { id: 'msg_1', content: 'Hi', conversation_id: 'conv_1' });
+
+    expect(channel.topic).toBe(TOPIC);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ id: 'msg_1', content: 'Hi', conversationId: 'conv_1' });
+  });
+
+  it('reports held messages as expired once outboxTtl has passed', async () => {
+    const websocket = new LertyWebSocket({
+      wsUrl: 'wss://lerty.test/socket',
+      apiToken: 'token',
+      reconnectAfterMs: 10000,
+      outboxTtl: 500,
+    });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    await jest.advanceTimersByTimeAsync(500);
+
+    await expect(sending).resolves.toMatchObject({ messageId: 'msg_1', status: 'expired' });
+    expect(websocket.getOutboxSize()).toBe(0);
+  });
+
+  it('drops the oldest held message when the outbox is full', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token', outboxSize: 2 });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    const first = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    void websocket.sendMessage(TOPIC, { id: 'msg_2' });
+    void websocket.sendMessage(TOPIC, { id: 'msg_3' });
+
+    await expect(first).resolves.toEqual({ topic: TOPIC, messageId: 'msg_1', status: 'dropped', reason: 'Outbox full' });
+    expect(websocket.getOutboxSize()).toBe(2);
+  });
+
+  it('holds a push again when the connection drops before Lerty answers', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token', reconnectAfterMs: 1000 });
+    const channel = await connectAndSubscribe(websocket);
+
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    lastSocket().close();
+    channel.pushes[0].push.reply('timeout');
+    expect(websocket.getOutboxSize()).toBe(1);
+
+    const rejoined = await reconnect(1000);
+    rejoined.pushes[0].push.reply('ok');
+    await expect(sending).resolves.toMatchObject({ status: 'delivered' });
+  });
+
+  it('rejects a push Lerty refuses', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    const channel = await connectAndSubscribe(websocket);
+
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    channel.pushes[0].push.reply('error', 'forbidden');
+
+    await expect(sending).rejects.toThrow('forbidden');
+  });
+
+  it('drops held messages when closed', async () => {
+    const websocket = new LertyWebSocket({ wsUrl: 'wss://lerty.test/socket', apiToken: 'token' });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    await websocket.disconnect();
+
+    await expect(sending).resolves.toMatchObject({ status: 'dropped' });
+    // Closed on purpose, so no reconnect
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(MockSocket.instances).toHaveLength(1);
+  });
+
+  it('backs off exponentially between reconnects, up to maxReconnectDelay', async () => {
+    const websocket = new LertyWebSocket({
+      wsUrl: 'wss://lerty.test/socket',
+      apiToken: 'token',
+      reconnectAfterMs: 1000,
+      maxReconnectDelay: 3000,
+    });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(MockSocket.instances).toHaveLength(2);
+
+    lastSocket().close();
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(MockSocket.instances).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(MockSocket.instances).toHaveLength(3);
+
+    lastSocket().close();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(MockSocket.instances).toHaveLength(4);
+
+    await websocket.disconnect();
+  });
+
+  it('gives up after maxReconnectAttempts, drops held messages and reports it', async () => {
+    const onGiveUp = jest.fn();
+    const websocket = new LertyWebSocket({
+      wsUrl: 'wss://lerty.test/socket',
+      apiToken: 'token',
+      reconnectAfterMs: 1000,
+      maxReconnectAttempts: 1,
+      onGiveUp,
+    });
+    await connectAndSubscribe(websocket);
+
+    lastSocket().close();
+    const sending = websocket.sendMessage(TOPIC, { id: 'msg_1' });
+    await jest.advanceTimersByTimeAsync(1000);
+    // The reconnect fails as well
+    lastSocket().close();
+
+    await expect(sending).resolves.toMatchObject({ status: 'dropped' });
+    expect(MockSocket.instances).toHaveLength(2);
+    expect(onGiveUp).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('gave up reconnecting') }));
+  });
+});
@@ -1,4 +1,5 @@
 import { IDataObject } from 'n8n-workflow';
+import { LertyTimeoutError } from './LertyErrors';
 
 export interface FileAttachment {
   url: string;
@@ -8,6 +9,19 @@ export interface FileAttachment {
   data?: Buffer;
 }
 
+export type LertyAttachmentType = 'image' | 'document' | 'audio' | 'video' | 'file';
+
+// Attachment shape used on the wire by Lerty (see AC-146 message formats)
+export interface LertyAttachment extends IDataObject {
+  type: LertyAttachmentType;
+  url: string;
+  filename: string;
+  size?: number;
+  mime_type: string;
+  presigned_url?: string;
+  expires_at?: string;
+}
+
 export interface S3PresignedUrl {
   uploadUrl: string;
   downloadUrl: string;
@@ -35,7 +49,9 @@ export class FileUtils {
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   ];
 
-  private static readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+  static readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+  private static readonly DOWNLOAD_TIMEOUT = 120000; // 2 minutes
 
   static validateFileType(fileType: string): boolean {
     return this.SUPPORTED_TYPES.includes(fileType.toLowerCase());
@@ -74,7 +90,7 @@ export class FileUtils {
     };
   }
 
-  static async downloadFileFromUrl(url: string, headers?: IDataObject): Promise<Buffer> {
+  static async downloadFileFromUrl(url: string, headers?: IDataObject, timeout = this.DOWNLOAD_TIMEOUT): Promise<Buffer> {
     try {
       const requestHeaders: Record<string, string> = {};
       if (headers) {
@@ -85,6 +101,7 @@ export class FileUtils {
 
       const response = await fetch(url, {
         headers: requestHeaders,
+        signal: AbortSignal.timeout(timeout),
       });
 
       if (!response.ok) {
@@ -94,6 +111,9 @@ export class FileUtils {
       const arrayBuffer = await response.arrayBuffer();
       return Buffer.from(arrayBuffer);
     } catch (error) {
+      if (LertyTimeoutError.isAbortTimeout(error)) {
+        throw new LertyTimeoutError(url, timeout);
+      }
       throw new Error(`Failed to download file from URL: ${error}`);
     }
   }
@@ -193,6 +213,79 @@ export class FileUtils {
     );
   }
 
+  static getAttachmentType(mimeType: string): LertyAttachmentType {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (
+      mimeType === 'application/pdf' ||
+      mimeType.includes('officedocument') ||
+      mimeType.includes('msword') ||
+      mimeType.includes('ms-excel') ||
+      this.isTextFile(mimeType)
+    ) {
+      return 'document';
+    }
+    return 'file';
+  }
+
+  static toLertyAttachment(url: string, filename?: string, mimeType?: string, size?: number): LertyAttachment {
+    const fileInfo = this.extractFileInfo(url.split('?')[0]);
+    const resolvedType = mimeType || fileInfo.type;
+
+    return {
+      type: this.getAttachmentType(resolvedType),
+      url,
+      filename: filename || fileInfo.name,
+      size,
+      mime_type: resolvedType,
+    };
+  }
+
+  /**
+   * Reads the `attachments` array of a Lerty payload and folds in the legacy
+   * single-file fields (`file_url`/`fileUrl`, `file_name`, `file_type`).
+   */
+  static normalizeAttachments(payload: IDataObject): LertyAttachment[] {
+    const attachments: LertyAttachment[] = [];
+
+    if (Array.isArray(payload.attachments)) {
+      for (const attachment of payload.attachments as IDataObject[]) {
+        if (!attachment || !attachment.url) {
+          continue;
+        }
+
+        const normalized = this.toLertyAttachment(
+          attachment.url as string,
+          (attachment.filename || attachment.file_name || attachment.name) as string | undefined,
+          (attachment.mime_type || attachment.mimeType) as string | undefined,
+          attachment.size as number | undefined,
+        );
+        if (attachment.type) {
+          normalized.type = attachment.type as LertyAttachmentType;
+        }
+        if (attachment.presigned_url) {
+          normalized.presigned_url = attachment.presigned_url as string;
+        }
+        if (attachment.expires_at) {
+          normalized.expires_at = attachment.expires_at as string;
+        }
+        attachments.push(normalized);
+      }
+    }
+
+    const legacyUrl = (payload.file_url || payload.fileUrl) as string | undefined;
+    if (legacyUrl && !attachments.some((attachment) => attachment.url === legacyUrl)) {
+      attachments.push(this.toLertyAttachment(
+        legacyUrl,
+        (payload.file_name || payload.fileName) as string | undefined,
+        (payload.file_type || payload.fileType) as string | undefined,
+      ));
+    }
+
+    return attachments;
+  }
+
   static createFileAttachment(url: string, name?: string, type?: string, size?: number): FileAttachment {
     const fileInfo = name && type ? { name, type } : this.extractFileInfo(url);
     
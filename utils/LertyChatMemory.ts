@@ -0,0 +1,123 @@
+import { BaseListChatMessageHistory } from '@langchain/core/chat_history';
+import { BaseMemory, InputValues, MemoryVariables, OutputValues, getOutputValue } from '@langchain/core/memory';
+import { AIMessage, BaseMessage, HumanMessage, getBufferString } from '@langchain/core/messages';
+
+import { LertyConversationMessage, LertyHttp } from './LertyHttp';
+
+// Records an agent reply in the Lerty conversation
+export type LertyReplyRecorder = (content: string) => Promise<void>;
+
+export interface LertyChatMemoryConfig {
+  lertyHttp: LertyHttp;
+  conversationId: string;
+  // How many of the latest conversation messages to load
+  contextWindowLength?: number;
+  // Leave undefined to keep new turns out of Lerty
+  recordReply?: LertyReplyRecorder;
+  memoryKey?: string;
+  inputKey?: string;
+  outputKey?: string;
+  returnMessages?: boolean;
+}
+
+/**
+ * Chat history read from a Lerty conversation. User messages are already in
+ * Lerty when the workflow runs, so only agent replies are written back.
+ */
+export class LertyChatMessageHistory extends BaseListChatMessageHistory {
+  lc_namespace = ['lerty', 'chat_history'];
+
+  private lertyHttp: LertyHttp;
+  private conversationId: string;
+  private contextWindowLength: number;
+  private recordReply?: LertyReplyRecorder;
+
+  constructor(config: LertyChatMemoryConfig) {
+    super();
+    this.lertyHttp = config.lertyHttp;
+    this.conversationId = config.conversationId;
+    this.contextWindowLength = config.contextWindowLength ?? 10;
+    this.recordReply = config.recordReply;
+  }
+
+  async getMessages(): Promise<BaseMessage[]> {
+    const messages = await this.fetchLatestMessages();
+    return messages.map((message) =>
+      message.type === 'agent_response'
+        ? new AIMessage(message.content)
+        : new HumanMessage(message.content),
+    );
+  }
+
+  async addMessage(message: BaseMessage): Promise<void> {
+    if (message.getType() !== 'ai' || !this.recordReply) {
+      return;
+    }
+    await this.recordReply(message.content as string);
+  }
+
+  async clear(): Promise<void> {
+    // The conversation is owned by Lerty, its history is never deleted from n8n
+  }
+
+  // Only the newest messages are requested, then put back in chronological order
+  private async fetchLatestMessages(): Promise<LertyConversationMessage[]> {
+    const page = await this.lertyHttp.getConversationMessages(this.conversationId, {
+      limit: this.contextWindowLength,
+      order: 'desc',
+    });
+
+    return page.data
+      .slice(0, this.contextWindowLength)
+      .reverse()
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+}
+
+/**
+ * Memory for n8n AI Agents backed by a Lerty conversation, so the agent sees
+ * the same history as the user in Lerty instead of a separate store keyed by
+ * `conversation_id`.
+ */
+export class LertyChatMemory extends BaseMemory {
+  chatHistory: LertyChatMessageHistory;
+  memoryKey: string;
+  inputKey?: string;
+  outputKey?: string;
+  returnMessages: boolean;
+
+  constructor(config: LertyChatMemoryConfig) {
+    super();
+    this.chatHistory = new LertyChatMessageHistory(config);
+    this.memoryKey = config.memoryKey ?? 'chat_history';
+    this.inputKey = config.inputKey ?? 'input';
+    this.outputKey = config.outputKey ?? 'output';
+    this.returnMessages = config.returnMessages ?? true;
+  }
+
+  get memoryKeys(): string[] {
+    return [this.memoryKey];
+  }
+
+  async loadMemoryVariables(values: InputValues): Promise<MemoryVariables> {
+    const messages = await this.chatHistory.getMessages();
+
+    // The message that started this run is already the agent's input
+    const input = values[this.inputKey!];
+    const last = messages[messages.length - 1];
+    if (last && last.getType() === 'human' && last.content === input) {
+      messages.pop();
+    }
+
+    return {
+      [this.memoryKey]: this.returnMessages ? messages : getBufferString(messages),
+    };
+  }
+
+  async saveContext(inputValues: InputValues, outputValues: OutputValues): Promise<void> {
+    const output = getOutputValue(outputValues, this.outputKey);
+    if (typeof output === 'string' && output !== '') {
+      await this.chatHistory.addMessage(new AIMessage(output));
+    }
+  }
+}
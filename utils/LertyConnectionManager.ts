@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import {
+  LertyChannelEventName,
+  LertyEventHandler,
+  LertyEventHandlers,
+  LertyMessage,
+  LertyWebSocket,
+  LertyWebSocketConfig,
+} from './LertyWebSocket';
+
+export interface LertyPooledSubscription {
+  topic: string;
+  // The shared socket, use it to push but never to disconnect
+  websocket: LertyWebSocket;
+  release(): Promise<void>;
+}
+
+interface PooledListener {
+  callback: (message: LertyMessage) => void;
+  onError?: (error: Error) => void;
+  removeHandlers: Array<() => void>;
+}
+
+interface PooledTopic {
+  listeners: Set<PooledListener>;
+  joined: Promise<void>;
+}
+
+interface PooledConnection {
+  websocket: LertyWebSocket;
+  connected: Promise<void>;
+  topics: Map<string, PooledTopic>;
+}
+
+/**
+ * Shares one Phoenix socket per credential (WebSocket URL + API token) across
+ * all triggers and nodes of the n8n process. Topics are multiplexed over that
+ * socket and reference-counted: a channel is left when its last subscriber
+ * releases it, and the socket is closed when no topic is left.
+ *
+ * The socket is created with the config of the first subscriber. A socket
+ * that fails to connect or gives up reconnecting is evicted from the pool and
+ * its subscribers are told through `onError`, so the next subscriber starts a
+ * fresh socket instead of waiting on a dead one.
+ */
+export class LertyConnectionManager {
+  private connections: Map<string, PooledConnection> = new Map();
+
+  static buildKey(wsUrl: string, apiToken: string): string {
+    // Keep the token itself out of the pool keys
+    return `${wsUrl}#${createHash('sha256').update(apiToken).digest('hex')}`;
+  }
+
+  async subscribe(
+    config: LertyWebSocketConfig,
+    topic: string,
+    callback: (message: LertyMessage) => void,
+    handlers: LertyEventHandlers = {},
+    onError?: (error: Error) => void,
+  ): Promise<LertyPooledSubscription> {
+    const key = LertyConnectionManager.buildKey(config.wsUrl, config.apiToken);
+
+    let connection = this.connections.get(key);
+    if (!connection) {
+      const created: PooledConnection = {
+        websocket: new LertyWebSocket({ ...config, onGiveUp: (error) => this.evict(key, created, error) }),
+        connected: Promise.resolve(),
+        topics: new Map(),
+      };
+      created.connected = created.websocket.connect();
+      // Subscribers waiting for the connection get the error from their subscribe call
+      created.connected.catch(() => this.evict(key, created));
+      connection = created;
+      this.connections.set(key, connection);
+    }
+    const { websocket } = connection;
+
+    let pooledTopic = connection.topics.get(topic);
+    if (!pooledTopic) {
+      const listeners = new Set<PooledListener>();
+      pooledTopic = {
+        listeners,
+        // One channel per topic, fanned out to every listener
+        joined: connection.connected.then(() =>
+          websocket.subscribe(topic, (message) => {
+            listeners.forEach((listener) => listener.callback(message));
+          }),
+        ),
+      };
+      connection.topics.set(topic, pooledTopic);
+    }
+
+    const listener: PooledListener = { callback, onError, removeHandlers: [] };
+    pooledTopic.listeners.add(listener);
+
+    try {
+      await pooledTopic.joined;
+    } catch (error) {
+      await this.release(key, topic, listener);
+      throw error;
+    }
+
+    Object.keys(handlers).forEach((event) => {
+      const handler = handlers[event as LertyChannelEventName] as LertyEventHandler<LertyChannelEventName>;
+      listener.removeHandlers.push(websocket.on(topic, event as LertyChannelEventName, handler));
+    });
+
+    return {
+      topic,
+      websocket,
+      release: () => this.release(key, topic, listener),
+    };
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  // Drops a dead socket from the pool and, given an error, tells its subscribers
+  private evict(key: string, connection: PooledConnection, error?: Error): void {
+    if (this.connections.get(key) !== connection) {
+      return;
+    }
+    this.connections.delete(key);
+    void connection.websocket.disconnect();
+
+    if (!error) {
+      return;
+    }
+    connection.topics.forEach((pooledTopic) => {
+      pooledTopic.listeners.forEach((listener) => listener.onError?.(error));
+    });
+  }
+
+  private async release(key: string, topic: string, listener: PooledListener): Promise<void> {
+    const connection = this.connections.get(key);
+    const pooledTopic = connection?.topics.get(topic);
+    if (!connection || !pooledTopic || !pooledTopic.listeners.delete(listener)) {
+      return;
+    }
+
+    listener.removeHandlers.forEach((removeHandler) => removeHandler());
+
+    const leaveTopic = pooledTopic.listeners.size === 0;
+    if (leaveTopic) {
+      connection.topics.delete(topic);
+    }
+
+    // Update the pool before awaiting so a new subscriber never gets a closing socket
+    const closeConnection = connection.topics.size === 0;
+    if (closeConnection) {
+      this.connections.delete(key);
+      await connection.websocket.disconnect();
+      return;
+    }
+
+    if (leaveTopic) {
+      await connection.websocket.unsubscribe(topic);
+    }
+  }
+}
+
+// Process-wide pool shared by all Lerty nodes
+export const lertyConnections = new LertyConnectionManager();
@@ -0,0 +1,105 @@
+import { IDataObject } from 'n8n-workflow';
+import { LertyTriggerEvent } from './LertyEventNormalizer';
+
+// Message ID → time in milliseconds until which it counts as a duplicate
+export type LertySeenMessages = { [messageId: string]: number };
+
+/**
+ * Where the seen message IDs are kept. Implement this to share them through
+ * an external store; `load` and `save` are called once per delivery.
+ */
+export interface LertySeenMessageStore {
+  load(): Promise<LertySeenMessages>;
+  save(seen: LertySeenMessages): Promise<void>;
+}
+
+export interface LertyDeduplicatorConfig {
+  store: LertySeenMessageStore;
+  // How long a message ID is remembered, in milliseconds
+  window: number;
+  // Oldest IDs are forgotten first once this many are remembered
+  maxEntries?: number;
+}
+
+/**
+ * Keeps the seen IDs in the workflow static data, so they survive restarts.
+ * n8n persists static data when an execution finishes.
+ */
+export class LertyStaticDataStore implements LertySeenMessageStore {
+  private staticData: IDataObject;
+
+  constructor(staticData: IDataObject) {
+    this.staticData = staticData;
+  }
+
+  async load(): Promise<LertySeenMessages> {
+    return { ...(this.staticData.seenMessageIds as LertySeenMessages | undefined) };
+  }
+
+  async save(seen: LertySeenMessages): Promise<void> {
+    this.staticData.seenMessageIds = seen;
+  }
+}
+
+/**
+ * Keeps the seen IDs in the memory of the n8n process. Catches retries that
+ * arrive while the first execution is still running, but forgets on restart.
+ */
+export class LertyMemoryStore implements LertySeenMessageStore {
+  private static stores: Map<string, LertySeenMessages> = new Map();
+  private key: string;
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  async load(): Promise<LertySeenMessages> {
+    return { ...LertyMemoryStore.stores.get(this.key) };
+  }
+
+  async save(seen: LertySeenMessages): Promise<void> {
+    LertyMemoryStore.stores.set(this.key, seen);
+  }
+}
+
+/**
+ * Recognizes redelivered messages by their ID within a time window. The set
+ * of seen IDs is bounded: expired IDs are pruned on every check and the
+ * oldest are dropped beyond `maxEntries`.
+ */
+export class LertyDeduplicator {
+  private config: LertyDeduplicatorConfig;
+
+  constructor(config: LertyDeduplicatorConfig) {
+    this.config = {
+      ...config,
+      maxEntries: config.maxEntries ?? 1000,
+    };
+  }
+
+  // Remembers the ID and tells whether it was already seen within the window
+  async isDuplicate(messageId: string, now: number = Date.now()): Promise<boolean> {
+    const seen = await this.config.store.load();
+
+    const remembered = Object.entries(seen).filter(([id, expiresAt]) => expiresAt > now && id !== messageId);
+    const duplicate = seen[messageId] !== undefined && seen[messageId] > now;
+
+    // A duplicate keeps its original expiry so constant retries cannot extend the window
+    remembered.push([messageId, duplicate ? seen[messageId] : now + this.config.window]);
+
+    // Over the limit, forget the IDs closest to expiring
+    remembered.sort((a, b) => a[1] - b[1]);
+    await this.config.store.save(Object.fromEntries(remembered.slice(-this.config.maxEntries!)));
+
+    return duplicate;
+  }
+
+  static getMessageId(event: LertyTriggerEvent): string | undefined {
+    const { id, chunk_index: chunkIndex } = event.message;
+    if (!id) {
+      return undefined;
+    }
+    // All chunks of a streamed response share the response's message ID
+    return chunkIndex === null ? id : `${id}:${chunkIndex}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { IDataObject, INode, JsonObject, NodeApiError } from 'n8n-workflow';
+
+/**
+ * Raised when a request to Lerty (or a file transfer) does not complete within
+ * its configured timeout, so callers can tell hung requests apart from failed ones.
+ */
+export class LertyTimeoutError extends Error {
+  readonly url: string;
+  readonly timeout: number;
+
+  constructor(url: string, timeout: number) {
+    super(`Request to ${stripQuery(url)} timed out after ${timeout} ms`);
+    this.name = 'LertyTimeoutError';
+    this.url = url;
+    this.timeout = timeout;
+  }
+
+  // fetch rejects with a DOMException named TimeoutError when AbortSignal.timeout() fires
+  static isAbortTimeout(error: unknown): boolean {
+    return error instanceof Error && error.name === 'TimeoutError';
+  }
+}
+
+/**
+ * Raised for non-2xx responses from the Lerty API. Keeps the HTTP status, the
+ * endpoint, Lerty's error code and the parsed response body for error handling.
+ */
+export class LertyApiError extends Error {
+  readonly status: number;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly code?: string;
+  readonly body?: IDataObject | string;
+
+  constructor(status: number, method: string, endpoint: string, body?: IDataObject | string) {
+    const details = LertyApiError.extractMessage(body);
+    super(`Lerty API ${method} ${stripQuery(endpoint)} failed with HTTP ${status}${details ? `: ${details}` : ''}`);
+    this.name = 'LertyApiError';
+    this.status = status;
+    this.method = method;
+    this.endpoint = endpoint;
+    this.code = LertyApiError.extractCode(body);
+    this.body = body;
+  }
+
+  static async fromResponse(response: Response, method: string, endpoint: string): Promise<LertyApiError> {
+    const text = await response.text();
+    let body: IDataObject | string | undefined = text || undefined;
+    try {
+      body = text ? (JSON.parse(text) as IDataObject) : undefined;
+    } catch (error) {
+      // Not JSON, keep the raw text
+    }
+    return new LertyApiError(response.status, method, endpoint, body);
+  }
+
+  // Lerty answers with either `{ error: { code, message } }`, `{ error: "..." }` or `{ message, errors }`
+  private static extractMessage(body?: IDataObject | string): string | undefined {
+    if (!body) return undefined;
+    if (typeof body === 'string') return body.slice(0, 500);
+
+    const error = body.error;
+    if (error && typeof error === 'object') return (error as IDataObject).message as string;
+    if (typeof error === 'string') return error;
+    if (body.message) return body.message as string;
+    if (body.errors) return JSON.stringify(body.errors);
+    return undefined;
+  }
+
+  private static extractCode(body?: IDataObject | string): string | undefined {
+    if (!body || typeof body === 'string') return undefined;
+
+    const error = body.error;
+    if (error && typeof error === 'object' && (error as IDataObject).code) {
+      return String((error as IDataObject).code);
+    }
+    return body.code ? String(body.code) : undefined;
+  }
+}
+
+const FRIENDLY_API_ERRORS: { [status: number]: { message: string; description: string } } = {
+  401: {
+    message: 'Authentication with Lerty failed',
+    description: 'Check the API token in your Lerty API credentials',
+  },
+  403: {
+    message: 'Access to this Lerty resource is forbidden',
+    description: 'The API token is valid but lacks permission for this agent or organization',
+  },
+  404: {
+    message: 'The requested Lerty resource was not found',
+    description: 'Check the agent and conversation IDs, the resource may have been deleted',
+  },
+  422: {
+    message: 'Lerty rejected the request as invalid',
+    description: 'Check the message fields sent to Lerty',
+  },
+  429: {
+    message: 'Too many requests to Lerty',
+    description: 'Lerty is rate limiting this API token. Increase Max Retries or slow the workflow down.',
+  },
+};
+
+/**
+ * Converts a LertyApiError into a NodeApiError with a friendly message for the
+ * common statuses, keeping `httpCode` so error workflows can branch on it.
+ */
+export function toNodeApiError(node: INode, error: LertyApiError, itemIndex?: number): NodeApiError {
+  const friendly = FRIENDLY_API_ERRORS[error.status];
+  const details = typeof error.body === 'object' ? JSON.stringify(error.body) : error.body;
+
+  return new NodeApiError(
+    node,
+    {
+      status: error.status,
+      endpoint: stripQuery(error.endpoint),
+      code: error.code ?? null,
+      body: (error.body as IDataObject) ?? null,
+    } as JsonObject,
+    {
+      message: friendly?.message ?? `Lerty API request failed with HTTP ${error.status}`,
+      description: [friendly?.description, details].filter(Boolean).join('. Response: '),
+      httpCode: String(error.status),
+      itemIndex,
+    },
+  );
+}
+
+// Drops the query string, presigned URLs carry credentials there
+export function stripQuery(url: string): string {
+  return url.split('?')[0];
+}
@@ -0,0 +1,110 @@
+import { IDataObject } from 'n8n-workflow';
+import { LertyTriggerEvent } from './LertyEventNormalizer';
+
+export type LertyFilterCombination = 'and' | 'or';
+
+export interface LertyMetadataCondition {
+  // Dot-separated path into the event's metadata, e.g. `source` or `page.section`
+  key: string;
+  value: string;
+}
+
+export interface LertyEventFilterConfig {
+  combine?: LertyFilterCombination;
+  userIds?: string[];
+  conversationIds?: string[];
+  metadata?: LertyMetadataCondition[];
+  contentRegex?: string;
+  hasAttachments?: boolean;
+}
+
+type LertyCondition = (event: LertyTriggerEvent) => boolean;
+
+/**
+ * Decides whether a trigger event starts an execution. Each configured filter
+ * is one condition, combined with AND (all must match) or OR (one is enough).
+ * Events are matched in their normalized shape, so the filters work the same
+ * for every trigger version and connection mode.
+ */
+export class LertyEventFilter {
+  private combine: LertyFilterCombination;
+  private conditions: LertyCondition[] = [];
+
+  constructor(config: LertyEventFilterConfig) {
+    this.combine = config.combine ?? 'and';
+
+    if (config.userIds && config.userIds.length > 0) {
+      const userIds = config.userIds;
+      this.conditions.push((event) => userIds.includes(event.user.id ?? ''));
+    }
+
+    if (config.conversationIds && config.conversationIds.length > 0) {
+      const conversationIds = config.conversationIds;
+      this.conditions.push((event) => conversationIds.includes(event.conversation.id));
+    }
+
+    for (const { key, value } of config.metadata ?? []) {
+      this.conditions.push((event) => {
+        const actual = getPath(event.metadata, key);
+        return actual !== undefined && actual !== null && String(actual) === value;
+      });
+    }
+
+    if (config.contentRegex) {
+      // Throws a SyntaxError for invalid patterns, the trigger builds its filter on activation to report them there
+      const pattern = new RegExp(config.contentRegex);
+      this.conditions.push((event) => pattern.test(event.message.content));
+    }
+
+    if (config.hasAttachments !== undefined) {
+      const hasAttachments = config.hasAttachments;
+      this.conditions.push((event) => (event.attachments.length > 0) === hasAttachments);
+    }
+  }
+
+  matches(event: LertyTriggerEvent): boolean {
+    if (this.conditions.length === 0) {
+      return true;
+    }
+    return this.combine === 'or'
+      ? this.conditions.some((condition) => condition(event))
+      : this.conditions.every((condition) => condition(event));
+  }
+
+  getConditionCount(): number {
+    return this.conditions.length;
+  }
+
+  // Builds a filter from the trigger's Filters collection
+  static fromParameters(filters: IDataObject): LertyEventFilter {
+    const metadata = ((filters.metadata as IDataObject)?.conditions as IDataObject[] | undefined) ?? [];
+    const hasAttachments = filters.hasAttachments as string | undefined;
+
+    return new LertyEventFilter({
+      combine: (filters.combine as LertyFilterCombination) || 'and',
+      userIds: splitList(filters.userIds as string),
+      conversationIds: splitList(filters.conversationIds as string),
+      metadata: metadata
+        .filter((condition) => condition.key)
+        .map((condition) => ({ key: condition.key as string, value: String(condition.value ?? '') })),
+      contentRegex: (filters.contentRegex as string) || undefined,
+      hasAttachments: hasAttachments === 'yes' ? true : hasAttachments === 'no' ? false : undefined,
+    });
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
+
+function getPath(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as IDataObject)[key];
+  }, data);
+}
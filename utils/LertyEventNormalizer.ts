@@ -0,0 +1,153 @@
+import { IDataObject } from 'n8n-workflow';
+import { FileUtils, LertyAttachment } from './FileUtils';
+import { LertyAgent, LertyContentFormat } from './LertyHttp';
+
+// Bumped whenever a field of LertyTriggerEvent is renamed, moved or removed
+export const LERTY_EVENT_SCHEMA_VERSION = 2;
+
+/**
+ * Fields of a Lerty event payload, read from the names used by the different
+ * Lerty versions (e.g. `conversation_id`, `conversationId` or `thread_id`).
+ */
+export interface LertyPayloadFields {
+  id: string;
+  type?: string;
+  content: string;
+  format?: LertyContentFormat;
+  conversationId: string;
+  userId?: string;
+  organizationId?: string;
+  agentId?: string;
+  timestamp: string;
+  metadata: IDataObject;
+  attachments: LertyAttachment[];
+  responseWebhook?: string;
+}
+
+export interface LertyReplyContext extends IDataObject {
+  conversation_id: string;
+  agent_id: string;
+  user_id: string | null;
+  organization_id: string | null;
+  response_webhook: string | null;
+  // Set when the trigger answers Lerty in the webhook response
+  response_mode: string | null;
+}
+
+/**
+ * Output of the Lerty Trigger from version 2 on. Every field is always
+ * present, missing values are null, so expressions keep working when Lerty
+ * changes its payload.
+ */
+export interface LertyTriggerEvent extends IDataObject {
+  schema_version: number;
+  event: string;
+  message: {
+    id: string;
+    type: string;
+    content: string;
+    format: LertyContentFormat | null;
+    timestamp: string;
+    // Position of a streamed response chunk, null for complete messages
+    chunk_index: number | null;
+  };
+  conversation: {
+    id: string;
+  };
+  user: {
+    id: string | null;
+    organization_id: string | null;
+  };
+  agent: {
+    id: string;
+    name: string | null;
+    tenant_id: string | null;
+    organization_id: string | null;
+  };
+  attachments: LertyAttachment[];
+  metadata: IDataObject;
+  reply_context: LertyReplyContext;
+  // Payload as sent by Lerty, only with Include Raw Payload
+  raw?: IDataObject;
+}
+
+export interface LertyNormalizeOptions {
+  agentId: string;
+  agent?: LertyAgent;
+  responseMode?: string;
+  includeRaw?: boolean;
+}
+
+/**
+ * Turns Lerty event payloads into the trigger's stable output schema. Used for
+ * webhook deliveries and, through `LertyWebSocket.parseMessage`, for channel
+ * messages, so both read the same field names.
+ */
+export class LertyEventNormalizer {
+  static readPayload(payload: IDataObject): LertyPayloadFields {
+    return {
+      id: String(payload.id || payload.message_id || payload.messageId || ''),
+      type: (payload.type as string) || undefined,
+      content: (payload.content ?? payload.delta ?? '') as string,
+      format: (payload.format as LertyContentFormat) || undefined,
+      conversationId: (payload.conversation_id || payload.conversationId || payload.thread_id || '') as string,
+      userId: (payload.user_id || payload.userId || undefined) as string | undefined,
+      organizationId: (payload.organization_id || payload.organizationId || undefined) as string | undefined,
+      agentId: (payload.agent_id || payload.agentId || undefined) as string | undefined,
+      timestamp: (payload.timestamp as string) || new Date().toISOString(),
+      metadata: (payload.metadata as IDataObject) || {},
+      attachments: FileUtils.normalizeAttachments(payload),
+      responseWebhook: (payload.response_webhook || payload.responseWebhook || payload.callback_url || undefined) as
+        string | undefined,
+    };
+  }
+
+  static normalize(payload: IDataObject, options: LertyNormalizeOptions): LertyTriggerEvent {
+    const fields = this.readPayload(payload);
+    const type = fields.type || 'user_message';
+    const agentId = options.agent?.id || options.agentId;
+    // Replies go to the sender's organization, which is the agent's unless the payload names another
+    const replyOrganizationId = fields.organizationId || options.agent?.organizationId || null;
+
+    const event: LertyTriggerEvent = {
+      schema_version: LERTY_EVENT_SCHEMA_VERSION,
+      event: type,
+      message: {
+        id: fields.id,
+        type,
+        content: fields.content,
+        format: fields.format ?? null,
+        timestamp: fields.timestamp,
+        chunk_index: typeof payload.index === 'number' ? payload.index : null,
+      },
+      conversation: {
+        id: fields.conversationId,
+      },
+      user: {
+        id: fields.userId ?? null,
+        organization_id: fields.organizationId ?? null,
+      },
+      agent: {
+        id: agentId,
+        name: options.agent?.name ?? null,
+        tenant_id: options.agent?.tenantId ?? null,
+        organization_id: options.agent?.organizationId ?? null,
+      },
+      attachments: fields.attachments,
+      metadata: fields.metadata,
+      reply_context: {
+        conversation_id: fields.conversationId,
+        agent_id: agentId,
+        user_id: fields.userId ?? null,
+        organization_id: replyOrganizationId,
+        response_webhook: fields.responseWebhook ?? null,
+        response_mode: options.responseMode ?? null,
+      },
+    };
+
+    if (options.includeRaw) {
+      event.raw = payload;
+    }
+    return event;
+  }
+}
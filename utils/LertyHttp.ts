@@ -1,11 +1,38 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
 import { IDataObject, IHttpRequestMethods, IHttpRequestOptions } from 'n8n-workflow';
+import { LertyAttachment } from './FileUtils';
+import { LertyApiError, LertyTimeoutError } from './LertyErrors';
 
 export interface LertyHttpConfig {
   baseUrl: string;
   apiToken: string;
+  // Timeout for API calls in milliseconds
   timeout?: number;
+  // Timeout for file uploads and downloads in milliseconds
+  fileTimeout?: number;
+  // Retries for 429, 502, 503, 504 and network errors, 0 disables retrying
+  maxRetries?: number;
+  // Base delay for exponential backoff in milliseconds
+  retryDelay?: number;
+  // Upper bound for a single backoff or Retry-After wait in milliseconds
+  maxRetryDelay?: number;
 }
 
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+// Statuses where the request was rejected before Lerty processed it, safe to resend even without an idempotency key
+const NOT_PROCESSED_STATUS_CODES = [429, 503];
+
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
 export interface LertyAgent {
   id: string;
   name: string;
@@ -16,6 +43,36 @@ export interface LertyAgent {
   metadata?: IDataObject;
 }
 
+export interface LertyAgentInput {
+  name?: string;
+  description?: string;
+  status?: LertyAgent['status'];
+  metadata?: IDataObject;
+}
+
+export type LertyContentFormat = 'markdown' | 'plain';
+
+export interface LertyQuickReply {
+  label: string;
+  value: string;
+}
+
+// Body of an agent reply, posted to the trigger's response_webhook or, in the
+// synchronous response modes, returned as the trigger's webhook HTTP response
+export interface LertyAgentReply extends IDataObject {
+  type: 'agent_response';
+  conversation_id: string;
+  content: string;
+  message_id: string;
+  timestamp: string;
+  user_id: string;
+  organization_id: string;
+  format?: LertyContentFormat;
+  metadata?: IDataObject;
+  attachments?: LertyAttachment[];
+  quick_replies?: LertyQuickReply[];
+}
+
 export interface LertyWebhookMessage {
   id: string;
   type: 'user_message' | 'agent_response';
@@ -25,22 +82,178 @@ export interface LertyWebhookMessage {
   agentId: string;
   timestamp: string;
   metadata?: IDataObject;
+  attachments?: LertyAttachment[];
+  format?: LertyContentFormat;
+  quickReplies?: LertyQuickReply[];
+  /** @deprecated Single-file field kept for older Lerty deployments, use `attachments` */
   fileUrl?: string;
+  /** @deprecated Use `attachments` */
   fileName?: string;
+  /** @deprecated Use `attachments` */
   fileType?: string;
 }
 
+export interface LertyConversation {
+  id: string;
+  agentId: string;
+  userId?: string;
+  organizationId?: string;
+  status: 'open' | 'closed' | 'archived';
+  title?: string;
+  messageCount?: number;
+  createdAt: string;
+  updatedAt?: string;
+  lastMessageAt?: string;
+  metadata?: IDataObject;
+}
+
+export interface LertyConversationFilters {
+  agentId?: string;
+  userId?: string;
+  status?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface LertyPageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+// One page of a cursor-paginated list, `nextCursor` is absent on the last page
+export interface LertyPage<T> {
+  data: T[];
+  nextCursor?: string;
+}
+
+export interface LertyConversationMessage {
+  id: string;
+  conversationId: string;
+  type: 'user_message' | 'agent_response';
+  content: string;
+  userId?: string;
+  agentId?: string;
+  timestamp: string;
+  metadata?: IDataObject;
+  attachments?: LertyAttachment[];
+}
+
+export interface LertyWebhook {
+  id?: string;
+  url: string;
+  agentId?: string;
+  eventTypes: string[];
+  // Only set when Lerty returns the signing secret
+  secret?: string;
+  createdAt?: string;
+}
+
+export interface LertyWebhookRegistration {
+  url: string;
+  event_types: string[];
+  secret?: string;
+}
+
+export interface LertyUploadedFile {
+  file_id: string;
+  url: string;
+  presigned_url?: string;
+  expires_at?: string;
+  filename: string;
+  size: number;
+  mime_type: string;
+}
+
+export interface LertyDownloadOptions {
+  // Largest accepted file in bytes, unlimited when omitted
+  maxSize?: number;
+  // Size announced by the attachment, checked before downloading
+  expectedSize?: number;
+}
+
+export interface LertyWebhookSignatureOptions {
+  secret: string;
+  timestamp?: string;
+  // Maximum age of the signed timestamp in seconds, 0 disables the replay check
+  toleranceSeconds?: number;
+}
 
 export class LertyHttp {
   private config: LertyHttpConfig;
 
   constructor(config: LertyHttpConfig) {
+    // Fields left undefined by callers (e.g. unset node options) fall back to the defaults
     this.config = {
-      timeout: 30000,
       ...config,
+      timeout: config.timeout ?? 30000,
+      fileTimeout: config.fileTimeout ?? 120000,
+      maxRetries: config.maxRetries ?? 3,
+      retryDelay: config.retryDelay ?? 500,
+      maxRetryDelay: config.maxRetryDelay ?? 30000,
     };
   }
 
+  getConfig(): Readonly<LertyHttpConfig> {
+    return this.config;
+  }
+
+  /**
+   * Calls fetch and retries throttled, unavailable and reset requests with
+   * exponential backoff and jitter, honoring Retry-After. Requests that are not
+   * idempotent (POST/PATCH without an Idempotency-Key header) are only resent when
+   * Lerty signalled it did not process them. Each attempt is aborted after `timeout`
+   * milliseconds, which also covers reading the response body.
+   */
+  private async fetchWithRetry(url: string, init: RequestInit, timeout: number): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = (init.headers || {}) as Record<string, string>;
+    const isIdempotent = !['POST', 'PATCH'].includes(method) || Boolean(headers['Idempotency-Key']);
+    const maxRetries = this.config.maxRetries!;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeout) });
+      } catch (error) {
+        if (LertyTimeoutError.isAbortTimeout(error)) {
+          throw new LertyTimeoutError(url, timeout);
+        }
+        if (attempt >= maxRetries || !isIdempotent || !isRetryableNetworkError(error)) {
+          throw error;
+        }
+        await sleep(this.getBackoffDelay(attempt));
+        continue;
+      }
+
+      const canRetry = isIdempotent
+        ? RETRYABLE_STATUS_CODES.includes(response.status)
+        : NOT_PROCESSED_STATUS_CODES.includes(response.status);
+      if (!canRetry || attempt >= maxRetries) {
+        return response;
+      }
+
+      // Free the connection before waiting
+      await response.body?.cancel();
+      await sleep(this.getBackoffDelay(attempt, response.headers.get('retry-after')));
+    }
+  }
+
+  private getBackoffDelay(attempt: number, retryAfter?: string | null): number {
+    const maxRetryDelay = this.config.maxRetryDelay!;
+
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+      if (Number.isFinite(delay)) {
+        return Math.min(Math.max(delay, 0), maxRetryDelay);
+      }
+    }
+
+    // Exponential backoff with equal jitter
+    const backoff = Math.min(this.config.retryDelay! * 2 ** attempt, maxRetryDelay);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
   private async makeRequest<T>(
     method: IHttpRequestMethods,
     endpoint: string,
@@ -61,21 +274,29 @@ export class LertyHttp {
       });
     }
 
+    const timeout = options?.timeout ?? this.config.timeout!;
+
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchWithRetry(url, {
         method,
         headers: requestHeaders,
         body: data ? JSON.stringify(data) : undefined,
-      });
+      }, timeout);
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        throw await LertyApiError.fromResponse(response, method, endpoint);
       }
 
-      const result = await response.json();
-      return result as T;
+      // DELETE and some webhook endpoints answer with 204 / an empty body
+      const responseText = await response.text();
+      return (responseText ? JSON.parse(responseText) : {}) as T;
     } catch (error) {
+      if (error instanceof LertyTimeoutError || error instanceof LertyApiError) {
+        throw error;
+      }
+      if (LertyTimeoutError.isAbortTimeout(error)) {
+        throw new LertyTimeoutError(url, timeout);
+      }
       throw new Error(`Request failed: ${error}`);
     }
   }
@@ -85,7 +306,7 @@ export class LertyHttp {
       const response = await this.makeRequest<{ agents: LertyAgent[] }>('GET', '/api/v1/agents');
       return response.agents || [];
     } catch (error) {
-      throw new Error(`Failed to fetch agents: ${error}`);
+      throw wrapError(error, 'Failed to fetch agents');
     }
   }
 
@@ -94,7 +315,47 @@ export class LertyHttp {
       const response = await this.makeRequest<{ agent: LertyAgent }>('GET', `/api/v1/agents/${agentId}`);
       return response.agent;
     } catch (error) {
-      throw new Error(`Failed to fetch agent ${agentId}: ${error}`);
+      throw wrapError(error, `Failed to fetch agent ${agentId}`);
+    }
+  }
+
+  async createAgent(agent: LertyAgentInput & { name: string }): Promise<LertyAgent> {
+    try {
+      const response = await this.makeRequest<{ agent: LertyAgent }>(
+        'POST',
+        '/api/v1/agents',
+        { ...agent },
+        // Makes the create safe to retry without provisioning the agent twice
+        { headers: { 'Idempotency-Key': randomUUID() } },
+      );
+      return response.agent;
+    } catch (error) {
+      throw wrapError(error, `Failed to create agent ${agent.name}`);
+    }
+  }
+
+  async updateAgent(agentId: string, changes: LertyAgentInput): Promise<LertyAgent> {
+    try {
+      const response = await this.makeRequest<{ agent: LertyAgent }>(
+        'PATCH',
+        `/api/v1/agents/${agentId}`,
+        { ...changes },
+      );
+      return response.agent;
+    } catch (error) {
+      throw wrapError(error, `Failed to update agent ${agentId}`);
+    }
+  }
+
+  async setAgentStatus(agentId: string, status: LertyAgent['status']): Promise<LertyAgent> {
+    return await this.updateAgent(agentId, { status });
+  }
+
+  async deleteAgent(agentId: string): Promise<void> {
+    try {
+      await this.makeRequest<IDataObject>('DELETE', `/api/v1/agents/${agentId}`);
+    } catch (error) {
+      throw wrapError(error, `Failed to delete agent ${agentId}`);
     }
   }
 
@@ -103,39 +364,228 @@ export class LertyHttp {
       const response = await this.makeRequest<{ message: LertyWebhookMessage }>(
         'POST',
         `/webhooks/agents/${agentId}/message`,
-        message
+        message,
+        // Lets Lerty drop a retried message instead of posting it twice
+        message.id ? { headers: { 'Idempotency-Key': message.id } } : undefined,
       );
       return response.message;
     } catch (error) {
-      throw new Error(`Failed to send message to agent ${agentId}: ${error}`);
+      throw wrapError(error, `Failed to send message to agent ${agentId}`);
     }
   }
 
+  async listConversations(
+    filters: LertyConversationFilters = {},
+    page: LertyPageOptions = {},
+  ): Promise<LertyPage<LertyConversation>> {
+    const query = buildQueryString({
+      agent_id: filters.agentId,
+      user_id: filters.userId,
+      status: filters.status,
+      created_after: filters.createdAfter,
+      created_before: filters.createdBefore,
+      cursor: page.cursor,
+      limit: page.limit,
+    });
 
-  async downloadFile(fileUrl: string): Promise<Buffer> {
     try {
-      const response = await fetch(fileUrl, {
+      const response = await this.makeRequest<{ conversations: LertyConversation[]; nextCursor?: string }>(
+        'GET',
+        `/api/v1/conversations${query}`,
+      );
+      return { data: response.conversations || [], nextCursor: response.nextCursor || undefined };
+    } catch (error) {
+      throw wrapError(error, 'Failed to list conversations');
+    }
+  }
+
+  async getConversation(conversationId: string): Promise<LertyConversation> {
+    try {
+      const response = await this.makeRequest<{ conversation: LertyConversation }>(
+        'GET',
+        `/api/v1/conversations/${conversationId}`,
+      );
+      return response.conversation;
+    } catch (error) {
+      throw wrapError(error, `Failed to fetch conversation ${conversationId}`);
+    }
+  }
+
+  async getConversationMessages(
+    conversationId: string,
+    options: LertyPageOptions & { after?: string; order?: 'asc' | 'desc' } = {},
+  ): Promise<LertyPage<LertyConversationMessage>> {
+    const query = buildQueryString({
+      after: options.after,
+      cursor: options.cursor,
+      limit: options.limit,
+      order: options.order,
+    });
+
+    try {
+      const response = await this.makeRequest<{ messages: LertyConversationMessage[]; nextCursor?: string }>(
+        'GET',
+        `/api/v1/conversations/${conversationId}/messages${query}`,
+      );
+      return { data: response.messages || [], nextCursor: response.nextCursor || undefined };
+    } catch (error) {
+      throw wrapError(error, `Failed to fetch messages of conversation ${conversationId}`);
+    }
+  }
+
+  // Sets up the agent's webhook, replacing the one set up before
+  async registerWebhook(agentId: string, registration: LertyWebhookRegistration): Promise<LertyWebhook> {
+    try {
+      const response = await this.makeRequest<IDataObject>(
+        'POST',
+        `/webhooks/agents/${agentId}/setup`,
+        { ...registration },
+      );
+      return toLertyWebhook(response, agentId) ?? { url: registration.url, agentId, eventTypes: registration.event_types };
+    } catch (error) {
+      throw wrapError(error, `Failed to set up webhook for agent ${agentId}`);
+    }
+  }
+
+  // The agent's webhook, or null when none is set up
+  async getWebhook(agentId: string): Promise<LertyWebhook | null> {
+    try {
+      const response = await this.makeRequest<IDataObject>('GET', `/webhooks/agents/${agentId}/info`);
+      return toLertyWebhook(response, agentId);
+    } catch (error) {
+      if (error instanceof LertyApiError && error.status === 404) {
+        return null;
+      }
+      throw wrapError(error, `Failed to fetch webhook info for agent ${agentId}`);
+    }
+  }
+
+  async deleteWebhook(agentId: string): Promise<void> {
+    try {
+      await this.makeRequest<IDataObject>('DELETE', `/webhooks/agents/${agentId}/webhook`);
+    } catch (error) {
+      throw wrapError(error, `Failed to delete webhook for agent ${agentId}`);
+    }
+  }
+
+  async uploadFile(agentId: string, data: Buffer, fileName: string, mimeType: string): Promise<LertyUploadedFile> {
+    const url = `${this.config.baseUrl}/api/v1/agents/${agentId}/files`;
+    const formData = new FormData();
+    formData.append('file', new Blob([data], { type: mimeType }), fileName);
+
+    try {
+      // Multipart upload, so no JSON Content-Type: fetch sets the boundary itself
+      const response = await this.fetchWithRetry(url, {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.config.apiToken}`,
+          'Accept': 'application/json',
         },
-      });
+        body: formData,
+      }, this.config.fileTimeout!);
+
+      if (!response.ok) {
+        throw await LertyApiError.fromResponse(response, 'POST', `/api/v1/agents/${agentId}/files`);
+      }
+
+      return (await response.json()) as LertyUploadedFile;
+    } catch (error) {
+      if (LertyTimeoutError.isAbortTimeout(error)) {
+        throw new LertyTimeoutError(url, this.config.fileTimeout!);
+      }
+      throw wrapError(error, `Failed to upload file ${fileName} for agent ${agentId}`);
+    }
+  }
+
+  /**
+   * Downloads an attachment. The API token is only sent to Lerty itself, never
+   * to storage hosts such as S3, whose presigned URLs are signed already. Files
+   * larger than `maxSize` bytes are refused by their announced size, or by
+   * Content-Length, before downloading, and the download stops once it passes
+   * `maxSize`.
+   */
+  async downloadFile(fileUrl: string, options: LertyDownloadOptions = {}): Promise<Buffer> {
+    const maxSize = options.maxSize ?? Infinity;
+
+    try {
+      if (options.expectedSize !== undefined && options.expectedSize > maxSize) {
+        throw new Error(`File is too large (${options.expectedSize} bytes, at most ${maxSize} allowed)`);
+      }
+
+      const headers: Record<string, string> = {};
+      if (this.isLertyUrl(fileUrl)) {
+        headers['Authorization'] = `Bearer ${this.config.apiToken}`;
+      }
+
+      const response = await this.fetchWithRetry(fileUrl, { headers }, this.config.fileTimeout!);
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+        throw await LertyApiError.fromResponse(response, 'GET', fileUrl);
+      }
+
+      const contentLength = Number(response.headers.get('content-length'));
+      if (contentLength > maxSize) {
+        await response.body?.cancel();
+        throw new Error(`File is too large (${contentLength} bytes, at most ${maxSize} allowed)`);
+      }
+
+      return await readBody(response, maxSize);
+    } catch (error) {
+      if (LertyTimeoutError.isAbortTimeout(error)) {
+        throw new LertyTimeoutError(fileUrl, this.config.fileTimeout!);
       }
+      throw wrapError(error, 'Failed to download file');
+    }
+  }
 
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+  // Whether the URL points at the configured Lerty API, the only host that may see the token
+  private isLertyUrl(url: string): boolean {
+    try {
+      return new URL(url).origin === new URL(this.config.baseUrl).origin;
     } catch (error) {
-      throw new Error(`Failed to download file: ${error}`);
+      return false;
     }
   }
 
-  async validateWebhook(payload: any, signature: string): Promise<boolean> {
-    // Implement webhook signature validation if needed
-    // This would typically use HMAC verification
-    return true;
+  /**
+   * Verifies an `x-lerty-signature` header against the raw request body.
+   * Lerty signs `{timestamp}.{body}` with HMAC-SHA256 and sends it as `sha256=<hex>`.
+   */
+  static validateWebhook(
+    rawBody: Buffer | string,
+    signature: string,
+    options: LertyWebhookSignatureOptions,
+  ): boolean {
+    if (!signature || !options.timestamp) {
+      return false;
+    }
+
+    const toleranceSeconds = options.toleranceSeconds ?? 300;
+    if (toleranceSeconds > 0) {
+      const timestampSeconds = Number(options.timestamp);
+      if (!Number.isFinite(timestampSeconds)) {
+        return false;
+      }
+
+      const ageSeconds = Math.abs(Date.now() / 1000 - timestampSeconds);
+      if (ageSeconds > toleranceSeconds) {
+        return false;
+      }
+    }
+
+    const expected = createHmac('sha256', options.secret)
+      .update(`${options.timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+    const received = signature.replace(/^sha256=/, '').trim().toLowerCase();
+
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+    const receivedBuffer = Buffer.from(received, 'utf8');
+    if (expectedBuffer.length !== receivedBuffer.length) {
+      return false;
+    }
+
+    return timingSafeEqual(expectedBuffer, receivedBuffer);
   }
 
   async testConnection(): Promise<boolean> {
@@ -162,7 +612,81 @@ export class LertyHttp {
       );
       return response;
     } catch (error) {
-      throw new Error(`Failed to send typing indicator for agent ${agentId}: ${error}`);
+      throw wrapError(error, `Failed to send typing indicator for agent ${agentId}`);
     }
   }
-}
\ No newline at end of file
+}
+
+function buildQueryString(params: { [key: string]: string | number | undefined }): string {
+  const query = new URLSearchParams();
+  Object.keys(params).forEach((key) => {
+    const value = params[key];
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableNetworkError(error: unknown): boolean {
+  // fetch wraps socket errors in a TypeError with the original error as cause
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  const code = cause?.code || (error as { code?: string })?.code;
+  return Boolean(code && RETRYABLE_ERROR_CODES.includes(code));
+}
+
+// Reads the webhook from a setup or info response, null when no URL is configured
+function toLertyWebhook(response: IDataObject, agentId: string): LertyWebhook | null {
+  const webhook = (response.webhook as IDataObject | undefined) ?? response;
+  const url = (webhook.url || webhook.webhook_url) as string | undefined;
+  if (!url) {
+    return null;
+  }
+
+  return {
+    id: (webhook.id as string) || undefined,
+    url,
+    agentId: (webhook.agent_id || webhook.agentId || agentId) as string,
+    eventTypes: (webhook.event_types || webhook.eventTypes || []) as string[],
+    secret: (webhook.secret ?? undefined) as string | undefined,
+    createdAt: (webhook.created_at || webhook.createdAt || undefined) as string | undefined,
+  };
+}
+
+// Reads a response body, cancelling the download once it passes maxSize bytes
+async function readBody(response: Response, maxSize: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error(`File is too large (more than ${maxSize} bytes)`);
+    }
+    chunks.push(value);
+  }
+}
+
+// Adds context to an error message, but lets typed Lerty errors through so callers can inspect them
+function wrapError(error: unknown, message: string): Error {
+  if (error instanceof LertyTimeoutError || error instanceof LertyApiError) {
+    return error;
+  }
+  return new Error(`${message}: ${error}`);
+}
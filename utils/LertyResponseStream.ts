@@ -0,0 +1,36 @@
+import { IDataObject } from 'n8n-workflow';
+
+/**
+ * Builds the events of a streamed agent reply: an `agent_response_start`,
+ * then `agent_response_chunk` events carrying the content generated since the
+ * previous chunk. Lerty shows the chunks as a draft and replaces it with the
+ * final `agent_response` that carries the same `message_id`.
+ *
+ * Every event is sent on its own, so a stream can span several node runs or
+ * items. The caller keeps the message ID and the index of the next chunk.
+ */
+export class LertyResponseStream {
+  static buildStart(conversationId: string, messageId: string): IDataObject {
+    return {
+      type: 'agent_response_start',
+      conversation_id: conversationId,
+      message_id: messageId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  static buildChunk(conversationId: string, messageId: string, index: number, delta: string): IDataObject {
+    return {
+      type: 'agent_response_chunk',
+      conversation_id: conversationId,
+      message_id: messageId,
+      index,
+      delta,
+    };
+  }
+
+  // Each event needs a key of its own, the final agent_response uses the bare message ID
+  static buildIdempotencyKey(messageId: string, index?: number): string {
+    return index === undefined ? `${messageId}:start` : `${messageId}:${index}`;
+  }
+}
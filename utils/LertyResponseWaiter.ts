@@ -0,0 +1,198 @@
+import { IDataObject } from 'n8n-workflow';
+import { LertyAgent, LertyHttp, LertyWebhookMessage } from './LertyHttp';
+import { LERTY_SOCKET_TIMEOUT, LertyMessage, LertyWebSocket } from './LertyWebSocket';
+import { LertyPooledSubscription, lertyConnections } from './LertyConnectionManager';
+import { withTimeout } from './LertyTransport';
+import { LertyAttachment } from './FileUtils';
+
+export interface LertyResponseWaiterConfig {
+  lertyHttp: LertyHttp;
+  agent: LertyAgent;
+  wsUrl?: string;
+  apiToken: string;
+  // How long to wait for the agent response in milliseconds
+  timeout?: number;
+  // Interval between history polls when no WebSocket is available, in milliseconds
+  pollInterval?: number;
+  // How long to wait for the socket to connect and join the agent's channel, in milliseconds
+  joinTimeout?: number;
+}
+
+export interface LertyAgentResponse {
+  id: string;
+  conversationId: string;
+  content: string;
+  timestamp: string;
+  metadata: IDataObject;
+  attachments: LertyAttachment[];
+  receivedVia: 'websocket' | 'polling';
+}
+
+export interface LertyExchange {
+  conversationId: string;
+  // Null when the agent did not answer within the timeout
+  response: LertyAgentResponse | null;
+}
+
+/**
+ * Waits for the `agent_response` that answers a message sent to a Lerty agent.
+ * Listens on the agent's Phoenix channel when a WebSocket URL is configured and
+ * reachable, otherwise polls the conversation history. Polling also takes over
+ * when the socket drops while waiting.
+ *
+ * Call `start()` before sending the message so no response is missed.
+ */
+export class LertyResponseWaiter {
+  private config: LertyResponseWaiterConfig;
+  private subscription: LertyPooledSubscription | null = null;
+  private received: LertyMessage[] = [];
+  private onReceived: (() => void) | null = null;
+
+  constructor(config: LertyResponseWaiterConfig) {
+    this.config = {
+      ...config,
+      timeout: config.timeout ?? 60000,
+      pollInterval: config.pollInterval ?? 2000,
+      joinTimeout: config.joinTimeout ?? LERTY_SOCKET_TIMEOUT,
+    };
+  }
+
+  /**
+   * Sends a user message to the agent and waits for the agent's reply. Starts
+   * listening before the message goes out so a fast reply is not missed.
+   */
+  static async sendAndWait(config: LertyResponseWaiterConfig, message: Partial<LertyWebhookMessage>): Promise<LertyExchange> {
+    const waiter = new LertyResponseWaiter(config);
+
+    await waiter.start();
+    try {
+      const sentMessage = await config.lertyHttp.sendMessage(config.agent.id, message);
+      const conversationId = sentMessage?.conversationId || message.conversationId!;
+      const response = await waiter.wait(conversationId, message.timestamp!);
+      return { conversationId, response };
+    } finally {
+      await waiter.stop();
+    }
+  }
+
+  async start(): Promise<void> {
+    if (!this.config.wsUrl) {
+      return;
+    }
+
+    let joining: Promise<LertyPooledSubscription> | undefined;
+
+    try {
+      joining = lertyConnections.subscribe(
+        { wsUrl: this.config.wsUrl, apiToken: this.config.apiToken },
+        LertyWebSocket.buildAgentTopic(this.config.agent),
+        (message) => {
+          if (message.type !== 'agent_response') {
+            return;
+          }
+          this.received.push(message);
+          this.onReceived?.();
+        },
+      );
+      this.subscription = await withTimeout(joining, this.config.joinTimeout!);
+    } catch (error) {
+      // Socket not reachable, wait() falls back to polling. Release a join that completes after we gave up on it
+      joining?.then((subscription) => subscription.release()).catch(() => {});
+    }
+  }
+
+  /**
+   * Resolves with the first agent response in the conversation sent after `since`,
+   * or null when none arrives within the timeout.
+   */
+  async wait(conversationId: string, since: string): Promise<LertyAgentResponse | null> {
+    const deadline = Date.now() + this.config.timeout!;
+
+    if (this.subscription) {
+      const response = await this.waitForSocket(conversationId, deadline);
+      // Replies sent while the socket was down only show up in the history
+      if (response !== 'disconnected') {
+        return response;
+      }
+    }
+
+    return await this.poll(conversationId, since, deadline);
+  }
+
+  async stop(): Promise<void> {
+    this.onReceived = null;
+    if (this.subscription) {
+      await this.subscription.release();
+      this.subscription = null;
+    }
+  }
+
+  private waitForSocket(conversationId: string, deadline: number): Promise<LertyAgentResponse | null | 'disconnected'> {
+    const { websocket, topic } = this.subscription!;
+
+    return new Promise((resolve) => {
+      const finish = (response: LertyAgentResponse | null | 'disconnected') => {
+        clearTimeout(timer);
+        clearInterval(watchdog);
+        this.onReceived = null;
+        resolve(response);
+      };
+
+      const timer = setTimeout(() => finish(null), Math.max(deadline - Date.now(), 0));
+      const watchdog = setInterval(() => {
+        if (!websocket.canPush(topic)) {
+          finish('disconnected');
+        }
+      }, this.config.pollInterval);
+
+      const check = () => {
+        const message = this.received.find((received) => received.conversationId === conversationId);
+        if (!message) {
+          return;
+        }
+
+        finish({
+          id: message.id,
+          conversationId: message.conversationId,
+          content: message.content,
+          timestamp: message.timestamp,
+          metadata: message.metadata || {},
+          attachments: message.attachments,
+          receivedVia: 'websocket',
+        });
+      };
+
+      this.onReceived = check;
+      // The response may have arrived while the message was being sent
+      check();
+    });
+  }
+
+  private async poll(conversationId: string, since: string, deadline: number): Promise<LertyAgentResponse | null> {
+    const sinceTime = Date.parse(since);
+
+    while (Date.now() < deadline) {
+      const { data: messages } = await this.config.lertyHttp.getConversationMessages(conversationId, { after: since });
+      const response = messages.find(
+        (message) => message.type === 'agent_response' && Date.parse(message.timestamp) >= sinceTime,
+      );
+
+      if (response) {
+        return {
+          id: response.id,
+          conversationId: response.conversationId || conversationId,
+          content: response.content,
+          timestamp: response.timestamp,
+          metadata: response.metadata || {},
+          attachments: response.attachments || [],
+          receivedVia: 'polling',
+        };
+      }
+
+      const remaining = Math.max(deadline - Date.now(), 0);
+      await new Promise((resolve) => setTimeout(resolve, Math.min(this.config.pollInterval!, remaining)));
+    }
+
+    return null;
+  }
+}
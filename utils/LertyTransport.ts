@@ -0,0 +1,138 @@
+import { IDataObject } from 'n8n-workflow';
+import { LertyHttp } from './LertyHttp';
+import { LertyTimeoutError } from './LertyErrors';
+import { LERTY_SOCKET_TIMEOUT, LertyWebSocket } from './LertyWebSocket';
+import { LertyPooledSubscription, lertyConnections } from './LertyConnectionManager';
+
+export type LertyTransportKind = 'websocket' | 'http';
+
+export interface LertyTransportConfig {
+  wsUrl?: string;
+  apiToken: string;
+  // How long to wait for the socket to connect and join the agent's channel, in milliseconds
+  joinTimeout?: number;
+}
+
+export interface LertyTransportPush {
+  agentId: string;
+  event: string;
+  payload: IDataObject;
+  // Sent as `idempotency_key` over the socket and must be the fallback's Idempotency-Key
+  messageId?: string;
+  // Set when receiving the event twice is harmless, e.g. a typing state
+  idempotent?: boolean;
+}
+
+export interface LertyTransportResult<T> {
+  transport: LertyTransportKind;
+  // Response of the HTTP fallback, undefined when the push went over the socket
+  response?: T;
+}
+
+/**
+ * Delivers messages to Lerty over the agent's Phoenix channel when a WebSocket
+ * URL is configured and reachable, and falls back to the HTTP endpoints when
+ * the socket cannot connect or the channel join fails.
+ *
+ * Once a message was pushed it may have reached Lerty even without an answer,
+ * so it is only resent over HTTP when it carries a message ID: the push and the
+ * request then share that idempotency key and Lerty keeps one of them.
+ *
+ * The socket comes from the process-wide connection pool, so it is shared with
+ * triggers using the same credential. Call `close()` to release the channels.
+ */
+export class LertyTransport {
+  private config: LertyTransportConfig;
+  private subscriptions: Map<string, Promise<LertyPooledSubscription | null>> = new Map();
+
+  constructor(config: LertyTransportConfig) {
+    this.config = {
+      ...config,
+      // Not shorter than the socket's own timeout, or joins still in progress would be given up
+      joinTimeout: Math.max(config.joinTimeout ?? LERTY_SOCKET_TIMEOUT, LERTY_SOCKET_TIMEOUT),
+    };
+  }
+
+  async deliver<T>(
+    lertyHttp: LertyHttp,
+    push: LertyTransportPush,
+    httpFallback: () => Promise<T>,
+  ): Promise<LertyTransportResult<T>> {
+    const subscription = await this.getSubscription(lertyHttp, push.agentId);
+
+    if (subscription?.websocket.canPush(subscription.topic)) {
+      const payload = push.messageId ? { ...push.payload, idempotency_key: push.messageId } : push.payload;
+      try {
+        // Not queued: a push that waits for a reconnect would be sent after the HTTP fallback
+        await subscription.websocket.push(subscription.topic, push.event, payload, push.messageId, { queue: false });
+        return { transport: 'websocket' };
+      } catch (error) {
+        // Unanswered pushes may still arrive; without a shared idempotency key Lerty could not drop the resend
+        if (error instanceof LertyTimeoutError && !push.messageId && !push.idempotent) {
+          throw error;
+        }
+      }
+    }
+
+    return { transport: 'http', response: await httpFallback() };
+  }
+
+  async close(): Promise<void> {
+    const subscriptions = Array.from(this.subscriptions.values());
+    this.subscriptions.clear();
+
+    for (const subscription of subscriptions) {
+      await (await subscription)?.release();
+    }
+  }
+
+  // Resolves with the agent's channel, or null when the socket is not usable
+  private getSubscription(lertyHttp: LertyHttp, agentId: string): Promise<LertyPooledSubscription | null> {
+    if (!this.config.wsUrl) {
+      return Promise.resolve(null);
+    }
+
+    let subscription = this.subscriptions.get(agentId);
+    if (!subscription) {
+      subscription = this.joinAgentTopic(lertyHttp, agentId);
+      this.subscriptions.set(agentId, subscription);
+    }
+    return subscription;
+  }
+
+  private async joinAgentTopic(lertyHttp: LertyHttp, agentId: string): Promise<LertyPooledSubscription | null> {
+    let joining: Promise<LertyPooledSubscription> | undefined;
+
+    try {
+      // The agent's tenant and organization are part of the channel topic
+      const agent = await lertyHttp.getAgent(agentId);
+      joining = lertyConnections.subscribe(
+        { wsUrl: this.config.wsUrl!, apiToken: this.config.apiToken },
+        LertyWebSocket.buildAgentTopic(agent),
+        () => {},
+      );
+      return await withTimeout(joining, this.config.joinTimeout!);
+    } catch (error) {
+      // Release a join that completes after we gave up on it
+      joining?.then((subscription) => subscription.release()).catch(() => {});
+      return null;
+    }
+  }
+}
+
+// Rejects when the promise does not settle within `timeout` milliseconds
+export function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
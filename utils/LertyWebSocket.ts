@@ -1,13 +1,41 @@
 import { Socket, Channel } from 'phoenix';
+import WebSocket from 'ws';
 import { IDataObject } from 'n8n-workflow';
+import { LertyAgent } from './LertyHttp';
+import { LertyAttachment } from './FileUtils';
+import { LertyTimeoutError } from './LertyErrors';
+import { LertyEventNormalizer } from './LertyEventNormalizer';
 
 export interface LertyWebSocketConfig {
   wsUrl: string;
   apiToken: string;
   timeout?: number;
   heartbeatInterval?: number;
+  // Delay before the first reconnect, doubled for every further attempt
   reconnectAfterMs?: number;
+  // Upper bound for the delay between two reconnects, in milliseconds
+  maxReconnectDelay?: number;
+  // Reconnects before giving up, unlimited by default and 0 disables reconnecting
   maxReconnectAttempts?: number;
+  // Role sent in the socket and channel join params
+  role?: string;
+  // Max number of messages held while disconnected, the oldest is dropped when full
+  outboxSize?: number;
+  // How long a held message may wait for the connection to come back, in milliseconds
+  outboxTtl?: number;
+  onDeliveryReport?: (report: LertyDeliveryReport) => void;
+  // Called when reconnecting was given up after maxReconnectAttempts
+  onGiveUp?: (error: Error) => void;
+}
+
+export type LertyDeliveryStatus = 'delivered' | 'expired' | 'dropped';
+
+export interface LertyDeliveryReport {
+  topic: string;
+  messageId?: string;
+  status: LertyDeliveryStatus;
+  // Why the message was not delivered
+  reason?: string;
 }
 
 export interface LertyMessage {
@@ -19,15 +47,119 @@ export interface LertyMessage {
   agentId?: string;
   timestamp: string;
   metadata?: IDataObject;
+  attachments: LertyAttachment[];
+  /** @deprecated Single-file field kept for older Lerty deployments, use `attachments` */
   fileUrl?: string;
+  /** @deprecated Use `attachments` */
   fileName?: string;
+  /** @deprecated Use `attachments` */
   fileType?: string;
+  /** Payload as received on the channel, with the fields not mapped above */
+  raw?: IDataObject;
+}
+
+export interface LertyTypingEvent {
+  conversationId: string;
+  userId?: string;
+  agentId?: string;
+  typing: boolean;
+}
+
+export interface LertyAgentStatusEvent {
+  status: string;
+  agentId?: string;
+  metadata: IDataObject;
+}
+
+export interface LertyResponseStart {
+  messageId: string;
+  conversationId: string;
+  timestamp: string;
+}
+
+// Partial content of a streamed agent response, `index` orders the chunks of one message
+export interface LertyResponseChunk {
+  messageId: string;
+  conversationId: string;
+  index: number;
+  delta: string;
+}
+
+export interface LertyPresenceState {
+  [key: string]: { metas: IDataObject[] };
+}
+
+export interface LertyPresenceDiff {
+  joins: LertyPresenceState;
+  leaves: LertyPresenceState;
+}
+
+export type LertyChannelEvent =
+  | { event: 'message'; payload: LertyMessage }
+  | { event: 'user_message'; payload: LertyMessage }
+  | { event: 'agent_response'; payload: LertyMessage }
+  | { event: 'agent_response_start'; payload: LertyResponseStart }
+  | { event: 'agent_response_chunk'; payload: LertyResponseChunk }
+  | { event: 'file_attachment'; payload: LertyMessage }
+  | { event: 'typing'; payload: LertyTypingEvent }
+  | { event: 'agent_status'; payload: LertyAgentStatusEvent }
+  | { event: 'presence_state'; payload: LertyPresenceState }
+  | { event: 'presence_diff'; payload: LertyPresenceDiff };
+
+export type LertyChannelEventName = LertyChannelEvent['event'];
+
+export type LertyEventHandler<E extends LertyChannelEventName> = (
+  payload: Extract<LertyChannelEvent, { event: E }>['payload'],
+) => void;
+
+export type LertyEventHandlers = {
+  [E in LertyChannelEventName]?: LertyEventHandler<E>;
+};
+
+export interface LertySubscribeOptions {
+  // Extra channel join params, sent along with the token and role
+  params?: IDataObject;
+  handlers?: LertyEventHandlers;
 }
 
 export interface TopicSubscription {
   topic: string;
   channel: Channel;
   callback: (message: LertyMessage) => void;
+  params: IDataObject;
+  handlers: Map<LertyChannelEventName, Set<(payload: any) => void>>;
+  joined: boolean;
+}
+
+// Default time Lerty has to answer a join or push, in milliseconds
+export const LERTY_SOCKET_TIMEOUT = 10000;
+
+const CHANNEL_EVENTS: LertyChannelEventName[] = [
+  'message',
+  'user_message',
+  'agent_response',
+  'agent_response_start',
+  'agent_response_chunk',
+  'file_attachment',
+  'typing',
+  'agent_status',
+  'presence_state',
+  'presence_diff',
+];
+
+// Events carrying a chat message, these are also passed to the subscribe callback
+const MESSAGE_EVENTS: LertyChannelEventName[] = ['message', 'user_message', 'agent_response', 'file_attachment'];
+
+interface OutboxEntry {
+  topic: string;
+  event: string;
+  payload: IDataObject;
+  messageId?: string;
+  // Whether the entry may wait in the outbox for the connection to come back
+  queue: boolean;
+  expiryTimer?: ReturnType<typeof setTimeout>;
+  settle: (report: LertyDeliveryReport) => void;
+  fail: (error: Error) => void;
 }
 
 export class LertyWebSocket {
@@ -36,64 +168,139 @@ export class LertyWebSocket {
   private config: LertyWebSocketConfig;
   private reconnectAttempts = 0;
   private isConnected = false;
+  private isClosing = false;
+  private outbox: OutboxEntry[] = [];
 
   constructor(config: LertyWebSocketConfig) {
     this.config = {
-      timeout: 10000,
+      timeout: LERTY_SOCKET_TIMEOUT,
       heartbeatInterval: 30000,
       reconnectAfterMs: 5000,
-      maxReconnectAttempts: 10,
+      maxReconnectDelay: 60000,
+      maxReconnectAttempts: Infinity,
+      role: 'agent',
+      outboxSize: 100,
+      outboxTtl: 60000,
       ...config,
     };
   }
 
+  static buildAgentTopic(agent: Pick<LertyAgent, 'id' | 'tenantId' | 'organizationId'>): string {
+    return `agent_chat:tenant_${agent.tenantId}_org_${agent.organizationId}_agent_${agent.id}`;
+  }
+
   async connect(): Promise<void> {
     if (this.socket && this.isConnected) {
       return;
     }
 
+    this.isClosing = false;
+
     this.socket = new Socket(this.config.wsUrl, {
       params: {
         token: this.config.apiToken,
+        role: this.config.role,
       },
       timeout: this.config.timeout,
       heartbeatIntervalMs: this.config.heartbeatInterval,
-      reconnectAfterMs: this.config.reconnectAfterMs,
+      // Phoenix expects a backoff function; reconnects are driven by handleReconnect
+      reconnectAfterMs: () => this.config.reconnectAfterMs!,
+      // Node.js has no global WebSocket before v22, so hand Phoenix the ws implementation
+      transport: WebSocket,
     });
 
+    const socket = this.socket;
+
     return new Promise((resolve, reject) => {
-      this.socket!.onOpen(() => {
+      // The ws handshake has no timeout of its own, so give up on a server that never answers
+      const openTimer = setTimeout(() => {
+        reject(new LertyTimeoutError(this.config.wsUrl, this.config.timeout!));
+        this.isConnected = false;
+        this.handleReconnect();
+      }, this.config.timeout);
+
+      socket.onOpen(() => {
+        clearTimeout(openTimer);
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        // Subscriptions only exist here after a reconnect, their channels died with the old socket
+        this.restoreSubscriptions();
         resolve();
       });
 
-      this.socket!.onError((error: any) => {
-        this.isConnected = false;
+      socket.onError((error: any) => {
+        clearTimeout(openTimer);
+        if (this.socket === socket) {
+          this.isConnected = false;
+        }
         reject(new Error(`WebSocket connection error: ${error}`));
       });
 
-      this.socket!.onClose(() => {
+      socket.onClose(() => {
+        clearTimeout(openTimer);
+        // A socket replaced after a timed out handshake may still report closing
+        if (this.socket !== socket) {
+          return;
+        }
         this.isConnected = false;
         this.handleReconnect();
       });
 
-      this.socket!.connect();
+      socket.connect();
     });
   }
 
   private handleReconnect(): void {
+    // Closed on purpose, e.g. when the trigger is deactivated
+    if (this.isClosing) {
+      return;
+    }
+
+    // Stop the dead socket from reconnecting on its own, a fresh one is created below
+    this.socket?.disconnect();
+    this.socket = null;
+    this.subscriptions.forEach((subscription) => {
+      subscription.joined = false;
+    });
+
     if (this.reconnectAttempts < this.config.maxReconnectAttempts!) {
+      // Exponential backoff, capped so a long outage is still noticed soon after it ends
+      const delay = Math.min(
+        this.config.reconnectAfterMs! * 2 ** this.reconnectAttempts,
+        this.config.maxReconnectDelay!,
+      );
       this.reconnectAttempts++;
       setTimeout(() => {
+        if (this.isClosing) {
+          return;
+        }
         this.connect().catch(() => {
           // Reconnection failed, will try again
         });
-      }, this.config.reconnectAfterMs! * this.reconnectAttempts);
+      }, delay);
+      return;
+    }
+
+    const reason = `Gave up reconnecting after ${this.reconnectAttempts} attempts`;
+    this.dropOutbox(reason);
+    // Reconnecting is disabled with maxReconnectAttempts 0, nothing to report
+    if (this.config.maxReconnectAttempts! > 0) {
+      this.config.onGiveUp?.(new Error(`Lerty WebSocket ${reason.toLowerCase()}`));
     }
   }
 
-  async subscribe(topic: string, callback: (message: LertyMessage) => void): Promise<void> {
+  /**
+   * Joins a topic. `callback` receives every chat message on the topic, whether
+   * Lerty sends it as a generic `message` or as a `user_message`,
+   * `agent_response` or `file_attachment` event. Typed handlers for any channel
+   * event, including typing, agent status and presence, can be passed in
+   * `options.handlers` or added later with `on()`.
+   */
+  async subscribe(
+    topic: string,
+    callback: (message: LertyMessage) => void,
+    options: LertySubscribeOptions = {},
+  ): Promise<void> {
     if (!this.socket || !this.isConnected) {
       throw new Error('WebSocket not connected');
     }
@@ -102,25 +309,84 @@ export class LertyWebSocket {
       throw new Error(`Already subscribed to topic: ${topic}`);
     }
 
-    const channel = this.socket.channel(topic, {});
-    
-    channel.on('message', (payload: any) => {
-      try {
-        const message: LertyMessage = this.parseMessage(payload);
-        callback(message);
-      } catch (error) {
-        console.error('Error parsing message:', error);
-      }
+    const handlers: TopicSubscription['handlers'] = new Map();
+    Object.keys(options.handlers ?? {}).forEach((event) => {
+      const handler = options.handlers![event as LertyChannelEventName];
+      handlers.set(event as LertyChannelEventName, new Set([handler!]));
+    });
+
+    const params = options.params ?? {};
+    const channel = await this.joinChannel(topic, params, callback, handlers);
+    this.subscriptions.set(topic, { topic, channel, callback, params, handlers, joined: true });
+  }
+
+  // Adds a typed handler for an event on a subscribed topic, returns a function removing it again
+  on<E extends LertyChannelEventName>(topic: string, event: E, handler: LertyEventHandler<E>): () => void {
+    const subscription = this.subscriptions.get(topic);
+    if (!subscription) {
+      throw new Error(`Not subscribed to topic: ${topic}`);
+    }
+
+    if (!subscription.handlers.has(event)) {
+      subscription.handlers.set(event, new Set());
+    }
+    subscription.handlers.get(event)!.add(handler);
+
+    return () => {
+      subscription.handlers.get(event)?.delete(handler);
+    };
+  }
+
+  private joinChannel(
+    topic: string,
+    params: IDataObject,
+    callback: (message: LertyMessage) => void,
+    handlers: TopicSubscription['handlers'],
+  ): Promise<Channel> {
+    const channel = this.socket!.channel(topic, {
+      token: this.config.apiToken,
+      role: this.config.role,
+      ...params,
+    });
+
+    CHANNEL_EVENTS.forEach((event) => {
+      channel.on(event, (payload: any) => {
+        try {
+          const channelEvent = this.parseEvent(event, payload);
+          if (MESSAGE_EVENTS.includes(channelEvent.event)) {
+            callback(channelEvent.payload as LertyMessage);
+          }
+          handlers.get(event)?.forEach((handler) => handler(channelEvent.payload));
+        } catch (error) {
+          console.error(`Error handling ${event} event:`, error);
+        }
+      });
     });
 
     return new Promise((resolve, reject) => {
       channel.join()
-        .receive('ok', () => {
-          this.subscriptions.set(topic, { topic, channel, callback });
-          resolve();
-        })
+        .receive('ok', () => resolve(channel))
         .receive('error', (error: any) => {
           reject(new Error(`Failed to subscribe to topic ${topic}: ${error}`));
+        })
+        .receive('timeout', () => {
+          // Phoenix keeps rejoining a timed out channel, stop it before giving up
+          channel.leave();
+          reject(new LertyTimeoutError(`${this.config.wsUrl} (join ${topic})`, this.config.timeout!));
+        });
+    });
+  }
+
+  private restoreSubscriptions(): void {
+    this.subscriptions.forEach((subscription) => {
+      this.joinChannel(subscription.topic, subscription.params, subscription.callback, subscription.handlers)
+        .then((channel) => {
+          subscription.channel = channel;
+          subscription.joined = true;
+          this.flushOutbox(subscription.topic);
+        })
+        .catch((error) => {
+          console.error('Error rejoining topic:', error);
         });
     });
   }
@@ -131,40 +397,211 @@ export class LertyWebSocket {
       return;
     }
 
+    this.dropOutbox(`Unsubscribed from topic ${topic}`, topic);
     await subscription.channel.leave();
     this.subscriptions.delete(topic);
   }
 
-  async sendMessage(topic: string, message: Partial<LertyMessage>): Promise<void> {
-    const subscription = this.subscriptions.get(topic);
-    if (!subscription) {
+  async sendMessage(topic: string, message: Partial<LertyMessage>): Promise<LertyDeliveryReport> {
+    return await this.push(topic, 'message', { ...message }, message.id);
+  }
+
+  async sendTyping(topic: string, conversationId: string, typing: boolean): Promise<LertyDeliveryReport> {
+    return await this.push(topic, 'typing', { conversation_id: conversationId, typing });
+  }
+
+  /**
+   * Pushes an event to a subscribed topic. While the connection is down the
+   * event is held in the outbox and pushed after the topic has been rejoined.
+   * Resolves with the delivery report once the event was delivered, expired
+   * or dropped, and rejects when Lerty refuses it or does not answer in time.
+   *
+   * With `queue: false` the event is never held: the push rejects right away
+   * when the topic is not joined, and a push left unanswered is not retried,
+   * so the caller can safely send it another way.
+   */
+  async push(
+    topic: string,
+    event: string,
+    payload: IDataObject,
+    messageId?: string,
+    options: { queue?: boolean } = {},
+  ): Promise<LertyDeliveryReport> {
+    if (!this.subscriptions.has(topic)) {
       throw new Error(`Not subscribed to topic: ${topic}`);
     }
 
+    const queue = options.queue ?? true;
+    if (!queue && !this.canPush(topic)) {
+      throw new Error(`Not joined to topic: ${topic}`);
+    }
+
     return new Promise((resolve, reject) => {
-      subscription.channel.push('message', message)
-        .receive('ok', () => resolve())
-        .receive('error', (error: any) => reject(new Error(`Failed to send message: ${error}`)));
+      const entry: OutboxEntry = {
+        topic,
+        event,
+        payload,
+        messageId,
+        queue,
+        settle: (report) => {
+          this.config.onDeliveryReport?.(report);
+          resolve(report);
+        },
+        fail: reject,
+      };
+
+      if (this.canPush(topic)) {
+        this.pushEntry(entry);
+      } else {
+        this.enqueue(entry);
+      }
     });
   }
 
-  private parseMessage(payload: any): LertyMessage {
+  getOutboxSize(): number {
+    return this.outbox.length;
+  }
+
+  // Whether a push to the topic goes out now instead of waiting in the outbox
+  canPush(topic: string): boolean {
+    return this.isConnected && this.subscriptions.get(topic)?.joined === true;
+  }
+
+  private pushEntry(entry: OutboxEntry): void {
+    const subscription = this.subscriptions.get(entry.topic)!;
+
+    subscription.channel.push(entry.event, entry.payload)
+      .receive('ok', () => entry.settle(this.buildReport(entry, 'delivered')))
+      .receive('error', (error: any) => entry.fail(new Error(`Failed to send ${entry.event}: ${error}`)))
+      .receive('timeout', () => {
+        // The connection dropped while the push was in flight
+        if (entry.queue && !this.canPush(entry.topic)) {
+          this.enqueue(entry);
+          return;
+        }
+        entry.fail(new LertyTimeoutError(`${this.config.wsUrl} (${entry.event} on ${entry.topic})`, this.config.timeout!));
+      });
+  }
+
+  private enqueue(entry: OutboxEntry): void {
+    if (this.outbox.length >= this.config.outboxSize!) {
+      const oldest = this.outbox.shift()!;
+      this.settleQueued(oldest, 'dropped', 'Outbox full');
+    }
+
+    entry.expiryTimer = setTimeout(() => {
+      this.outbox = this.outbox.filter((queued) => queued !== entry);
+      this.settleQueued(entry, 'expired', 'Connection was not restored in time');
+    }, this.config.outboxTtl);
+    this.outbox.push(entry);
+  }
+
+  private flushOutbox(topic: string): void {
+    const pending = this.outbox.filter((entry) => entry.topic === topic);
+    this.outbox = this.outbox.filter((entry) => entry.topic !== topic);
+
+    // Phoenix sends pushes in order, so queued messages keep their order
+    pending.forEach((entry) => {
+      clearTimeout(entry.expiryTimer);
+      this.pushEntry(entry);
+    });
+  }
+
+  private dropOutbox(reason: string, topic?: string): void {
+    const dropped = this.outbox.filter((entry) => !topic || entry.topic === topic);
+    this.outbox = this.outbox.filter((entry) => topic !== undefined && entry.topic !== topic);
+
+    dropped.forEach((entry) => this.settleQueued(entry, 'dropped', reason));
+  }
+
+  private settleQueued(entry: OutboxEntry, status: LertyDeliveryStatus, reason: string): void {
+    clearTimeout(entry.expiryTimer);
+    entry.settle(this.buildReport(entry, status, reason));
+  }
+
+  private buildReport(entry: OutboxEntry, status: LertyDeliveryStatus, reason?: string): LertyDeliveryReport {
+    return {
+      topic: entry.topic,
+      messageId: entry.messageId,
+      status,
+      ...(reason ? { reason } : {}),
+    };
+  }
+
+  private parseEvent(event: LertyChannelEventName, payload: any): LertyChannelEvent {
+    switch (event) {
+      case 'typing':
+        return {
+          event,
+          payload: {
+            conversationId: payload.conversation_id || '',
+            userId: payload.user_id,
+            agentId: payload.agent_id,
+            typing: payload.typing !== false,
+          },
+        };
+      case 'agent_response_start':
+        return {
+          event,
+          payload: {
+            messageId: payload.message_id || '',
+            conversationId: payload.conversation_id || '',
+            timestamp: payload.timestamp || new Date().toISOString(),
+          },
+        };
+      case 'agent_response_chunk':
+        return {
+          event,
+          payload: {
+            messageId: payload.message_id || '',
+            conversationId: payload.conversation_id || '',
+            index: Number(payload.index) || 0,
+            delta: payload.delta || '',
+          },
+        };
+      case 'agent_status':
+        return {
+          event,
+          payload: {
+            status: payload.status || '',
+            agentId: payload.agent_id,
+            metadata: payload.metadata || {},
+          },
+        };
+      case 'presence_state':
+        return { event, payload: payload || {} };
+      case 'presence_diff':
+        return { event, payload: { joins: payload?.joins || {}, leaves: payload?.leaves || {} } };
+      default:
+        return { event, payload: this.parseMessage(payload, event) };
+    }
+  }
+
+  private parseMessage(payload: any, event: LertyChannelEventName = 'message'): LertyMessage {
+    // Same field resolution as the trigger's webhook output
+    const fields = LertyEventNormalizer.readPayload(payload);
     return {
-      id: payload.id || '',
-      type: payload.type || 'user_message',
-      content: payload.content || '',
-      conversationId: payload.conversation_id || '',
-      userId: payload.user_id,
-      agentId: payload.agent_id,
-      timestamp: payload.timestamp || new Date().toISOString(),
-      metadata: payload.metadata || {},
+      id: fields.id,
+      // Typed events name the message type, the generic `message` event carries it in the payload
+      type: (fields.type || (event === 'message' ? 'user_message' : event)) as LertyMessage['type'],
+      content: fields.content,
+      conversationId: fields.conversationId,
+      userId: fields.userId,
+      agentId: fields.agentId,
+      timestamp: fields.timestamp,
+      metadata: fields.metadata,
+      attachments: fields.attachments,
       fileUrl: payload.file_url,
       fileName: payload.file_name,
       fileType: payload.file_type,
+      raw: payload,
     };
   }
 
   async disconnect(): Promise<void> {
+    this.isClosing = true;
+    this.dropOutbox('Connection closed');
+
     if (this.socket) {
       // Unsubscribe from all topics
       for (const [topic] of this.subscriptions) {
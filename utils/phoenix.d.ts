@@ -3,7 +3,8 @@ declare module 'phoenix' {
     params?: any;
     timeout?: number;
     heartbeatIntervalMs?: number;
-    reconnectAfterMs?: number;
+    reconnectAfterMs?: (tries: number) => number;
+    transport?: any;
   }
 
   export class Socket {